@@ -10,6 +10,7 @@ import MessageHistory from "./pages/MessageHistory";
 import GroupManagement from "./pages/GroupManagement";
 import TemplateManagement from "./pages/TemplateManagement";
 import Settings from "./pages/Settings";
+import HolidaySettings from "./pages/HolidaySettings";
 import TestSend from "./pages/TestSend";
 
 function Router() {
@@ -25,6 +26,7 @@ function Router() {
           <Route path="/history" component={MessageHistory} />
           <Route path="/groups" component={GroupManagement} />
           <Route path="/templates" component={TemplateManagement} />
+          <Route path="/holidays" component={HolidaySettings} />
           <Route path="/settings" component={Settings} />
           <Route path="/test-send" component={TestSend} />
           <Route component={NotFound} />
@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ImagePlus, Smile, X } from "lucide-react";
+import {
+  MAX_ATTACHMENTS,
+  MAX_IMAGE_BYTES,
+  MessageAttachment,
+  imageContentTypes,
+  stickerImageUrl,
+  stickerPackages,
+} from "@shared/attachments";
+import { uploadRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// 預覽圖最長邊像素，LINE 聊天室中的縮圖不需要更大
+const PREVIEW_SIZE = 480;
+
+type UploadResult = { fileName: string; url: string };
+
+// 在瀏覽器端縮小圖片作為 LINE 的預覽圖（JPEG，透明背景補白）
+async function createPreview(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, PREVIEW_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("無法產生預覽圖"))), "image/jpeg", 0.85)
+  );
+}
+
+// 附件的縮圖網址：圖片用預覽圖，貼圖用貼圖商店的圖檔
+export const attachmentThumbnail = (attachment: MessageAttachment) =>
+  attachment.type === "image" ? attachment.previewImageUrl : stickerImageUrl(attachment.stickerId);
+
+type AttachmentEditorProps = {
+  attachments: MessageAttachment[];
+  onChange: (attachments: MessageAttachment[]) => void;
+};
+
+// 訊息附件編輯：上傳圖片到媒體庫、挑選貼圖，並顯示縮圖與發送順序
+export default function AttachmentEditor({ attachments, onChange }: AttachmentEditorProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isStickerPickerOpen, setIsStickerPickerOpen] = useState(false);
+  const [packageId, setPackageId] = useState(stickerPackages[0].packageId);
+
+  const remaining = MAX_ATTACHMENTS - attachments.length;
+  const selectedPackage = stickerPackages.find(p => p.packageId === packageId) || stickerPackages[0];
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).slice(0, remaining);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    const uploaded: MessageAttachment[] = [];
+    try {
+      for (const file of files) {
+        if (!imageContentTypes.includes(file.type)) {
+          throw new Error(`${file.name} 不是 JPEG 或 PNG 圖片`);
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+          throw new Error(`${file.name} 超過 10MB`);
+        }
+
+        const original = await uploadRequest<UploadResult>("/api/media", file);
+        const preview = await uploadRequest<UploadResult>("/api/media?kind=preview", await createPreview(file));
+        uploaded.push({ type: "image", originalContentUrl: original.url, previewImageUrl: preview.url });
+      }
+    } catch (error) {
+      toast({
+        title: "圖片上傳失敗",
+        description: error instanceof Error ? error.message : "上傳圖片時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    } finally {
+      // 已上傳成功的圖片仍然加入
+      if (uploaded.length > 0) onChange([...attachments, ...uploaded]);
+      setIsUploading(false);
+    }
+  };
+
+  const handleSelectSticker = (stickerId: number) => {
+    onChange([...attachments, { type: "sticker", packageId: selectedPackage.packageId, stickerId: String(stickerId) }]);
+    setIsStickerPickerOpen(false);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(attachments.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">附件（圖片、貼圖）</span>
+        <span className="text-xs text-gray-500">
+          {attachments.length}/{MAX_ATTACHMENTS}，與訊息內容一起發送
+        </span>
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment, index) => (
+            <div key={index} className="relative w-20 h-20 rounded-md border bg-gray-50 overflow-hidden">
+              <img
+                src={attachmentThumbnail(attachment)}
+                alt={attachment.type === "image" ? "圖片" : "貼圖"}
+                className={attachment.type === "image" ? "w-full h-full object-cover" : "w-full h-full object-contain p-1"}
+              />
+              <button
+                type="button"
+                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                onClick={() => handleRemove(index)}
+                title="移除附件"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={imageContentTypes.join(",")}
+          multiple
+          className="hidden"
+          onChange={handleUpload}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={remaining <= 0 || isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <ImagePlus className="h-4 w-4 mr-1" /> {isUploading ? "上傳中..." : "上傳圖片"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={remaining <= 0}
+          onClick={() => setIsStickerPickerOpen(true)}
+        >
+          <Smile className="h-4 w-4 mr-1" /> 加入貼圖
+        </Button>
+      </div>
+
+      <Dialog open={isStickerPickerOpen} onOpenChange={setIsStickerPickerOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>選擇貼圖</DialogTitle>
+          </DialogHeader>
+
+          <Select value={packageId} onValueChange={setPackageId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stickerPackages.map(p => (
+                <SelectItem key={p.packageId} value={p.packageId}>
+                  {p.label}（{p.packageId}）
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="grid grid-cols-5 gap-2 max-h-80 overflow-y-auto">
+            {Array.from({ length: selectedPackage.last - selectedPackage.first + 1 }, (_, i) => selectedPackage.first + i).map(stickerId => (
+              <button
+                key={stickerId}
+                type="button"
+                className="rounded-md border p-1 hover:bg-gray-100"
+                onClick={() => handleSelectSticker(stickerId)}
+                title={`貼圖 ${stickerId}`}
+              >
+                <img src={stickerImageUrl(stickerId)} alt={String(stickerId)} className="w-full h-16 object-contain" loading="lazy" />
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { CSSProperties } from "react";
+import { FlexAction, FlexBubble, FlexComponent, FlexContainer, validateFlexContainer } from "@shared/flex";
+
+// LINE 尺寸關鍵字對應的大約像素值，只用於預覽
+const fontSizes: Record<string, string> = {
+  xxs: "10px", xs: "11px", sm: "13px", md: "15px", lg: "17px", xl: "19px", xxl: "22px", "3xl": "26px", "4xl": "30px", "5xl": "36px",
+};
+const spacings: Record<string, string> = {
+  none: "0", xs: "2px", sm: "4px", md: "8px", lg: "12px", xl: "16px", xxl: "20px",
+};
+const bubbleWidths: Record<string, string> = {
+  nano: "120px", micro: "160px", kilo: "220px", mega: "300px", giga: "360px",
+};
+
+const sizeOf = (value: string | undefined, table: Record<string, string>) =>
+  value ? table[value] || value : undefined;
+
+const actionLabel = (action?: FlexAction) => action?.label || (action?.type === "uri" ? action.uri : "");
+
+function FlexNode({ component, parentLayout }: { component: FlexComponent; parentLayout: string }) {
+  const style: CSSProperties = {
+    marginTop: parentLayout === "vertical" ? sizeOf((component as { margin?: string }).margin, spacings) : undefined,
+    marginLeft: parentLayout !== "vertical" ? sizeOf((component as { margin?: string }).margin, spacings) : undefined,
+    flex: parentLayout !== "vertical" ? (component as { flex?: number }).flex ?? 1 : undefined,
+    minWidth: 0,
+  };
+
+  switch (component.type) {
+    case "box":
+      return (
+        <div
+          style={{
+            ...style,
+            display: "flex",
+            flexDirection: component.layout === "vertical" ? "column" : "row",
+            alignItems: component.layout === "baseline" ? "baseline" : undefined,
+            gap: sizeOf(component.spacing, spacings),
+            padding: sizeOf(component.paddingAll, spacings),
+            backgroundColor: component.backgroundColor,
+            borderRadius: component.cornerRadius,
+          }}
+        >
+          {component.contents.map((child, i) => (
+            <FlexNode key={i} component={child} parentLayout={component.layout} />
+          ))}
+        </div>
+      );
+
+    case "text":
+      return (
+        <p
+          style={{
+            ...style,
+            fontSize: sizeOf(component.size, fontSizes) || fontSizes.md,
+            fontWeight: component.weight === "bold" ? 700 : 400,
+            color: component.color || "#111111",
+            textAlign: component.align === "end" ? "right" : component.align === "center" ? "center" : "left",
+            whiteSpace: component.wrap ? "pre-wrap" : "nowrap",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+          }}
+        >
+          {component.contents?.length
+            ? component.contents.map((span, i) => (
+                <span
+                  key={i}
+                  style={{
+                    fontSize: sizeOf(span.size, fontSizes),
+                    fontWeight: span.weight === "bold" ? 700 : undefined,
+                    color: span.color,
+                  }}
+                >
+                  {span.text}
+                </span>
+              ))
+            : component.text}
+        </p>
+      );
+
+    case "button": {
+      const buttonStyle = component.style || "link";
+      const color = component.color || (buttonStyle === "secondary" ? "#DCDFE5" : "#17c950");
+      return (
+        <div
+          style={{
+            ...style,
+            padding: component.height === "sm" ? "6px 8px" : "10px 8px",
+            borderRadius: "6px",
+            textAlign: "center",
+            fontSize: fontSizes.md,
+            backgroundColor: buttonStyle === "link" ? "transparent" : color,
+            color: buttonStyle === "primary" ? "#ffffff" : buttonStyle === "secondary" ? "#111111" : color === "#17c950" ? "#42659a" : color,
+          }}
+          title={component.action.type === "uri" ? component.action.uri : undefined}
+        >
+          {actionLabel(component.action)}
+        </div>
+      );
+    }
+
+    case "image":
+      return (
+        <img
+          src={component.url}
+          alt=""
+          style={{
+            ...style,
+            width: "100%",
+            aspectRatio: component.aspectRatio?.replace(":", " / ") || "1 / 1",
+            objectFit: component.aspectMode === "cover" ? "cover" : "contain",
+          }}
+        />
+      );
+
+    case "icon":
+      return <img src={component.url} alt="" style={{ ...style, flex: "none", width: sizeOf(component.size, fontSizes) || fontSizes.md }} />;
+
+    case "separator":
+      return <hr style={{ ...style, flex: "none", borderColor: component.color || "#E5E5E5" }} />;
+
+    case "filler":
+      return <div style={{ flex: component.flex ?? 1 }} />;
+
+    default:
+      return null;
+  }
+}
+
+function BubblePreview({ bubble }: { bubble: FlexBubble }) {
+  const blocks = (["header", "hero", "body", "footer"] as const).filter(block => bubble[block]);
+
+  return (
+    <div
+      className="bg-white rounded-xl overflow-hidden shadow-sm flex-none"
+      style={{ width: bubbleWidths[bubble.size || "mega"] }}
+    >
+      {blocks.map(block => (
+        <div key={block} style={{ padding: block === "hero" ? 0 : "16px" }}>
+          <FlexNode component={bubble[block]!} parentLayout="vertical" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type FlexPreviewProps = {
+  // Flex 容器的 JSON 字串
+  json: string;
+};
+
+// Flex Message 的近似預覽：依 LINE 的版面規則繪製 bubble/carousel，格式錯誤時列出錯誤
+export default function FlexPreview({ json }: FlexPreviewProps) {
+  let container: FlexContainer | null = null;
+  let errors: string[] = [];
+
+  try {
+    const parsed = JSON.parse(json);
+    errors = validateFlexContainer(parsed);
+    if (errors.length === 0) container = parsed as FlexContainer;
+  } catch (err) {
+    errors = [`JSON 解析失敗: ${err instanceof Error ? err.message : String(err)}`];
+  }
+
+  if (!container) {
+    return (
+      <ul className="text-sm text-red-600 list-disc list-inside space-y-1">
+        {errors.map((error, i) => (
+          <li key={i}>{error}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  const bubbles = container.type === "carousel" ? container.contents : [container];
+
+  return (
+    <div className="bg-[#8CABD9] p-4 rounded-lg">
+      <div className="flex gap-2 overflow-x-auto">
+        {bubbles.map((bubble, i) => (
+          <BubblePreview key={i} bubble={bubble} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// 款項通知範例，方便在編輯器中從範例開始修改
+export const flexPaymentExample = JSON.stringify(
+  {
+    type: "bubble",
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "md",
+      contents: [
+        { type: "text", text: "款項通知", weight: "bold", size: "xl" },
+        { type: "separator" },
+        {
+          type: "box",
+          layout: "horizontal",
+          contents: [
+            { type: "text", text: "金額", color: "#888888", size: "sm", flex: 2 },
+            { type: "text", text: "NT$12,000", weight: "bold", size: "sm", align: "end", flex: 5 },
+          ],
+        },
+        {
+          type: "box",
+          layout: "horizontal",
+          contents: [
+            { type: "text", text: "匯款帳號", color: "#888888", size: "sm", flex: 2 },
+            { type: "text", text: "(812) 1234-5678-9012", size: "sm", align: "end", flex: 5 },
+          ],
+        },
+        {
+          type: "box",
+          layout: "horizontal",
+          contents: [
+            { type: "text", text: "繳款期限", color: "#888888", size: "sm", flex: 2 },
+            { type: "text", text: "2025/01/31", size: "sm", align: "end", flex: 5 },
+          ],
+        },
+      ],
+    },
+    footer: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        { type: "button", style: "primary", action: { type: "uri", label: "填寫匯款回報", uri: "https://example.com/form" } },
+      ],
+    },
+  },
+  null,
+  2
+);
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ConversationEntry, Group } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+
+type GroupConversationProps = {
+  group: Group;
+};
+
+// 群組的對話紀錄：右側為系統發送的訊息，左側為群組成員傳給 Bot 的文字與圖片
+export default function GroupConversation({ group }: GroupConversationProps) {
+  const { data: entries = [], isLoading } = useQuery<ConversationEntry[]>({
+    queryKey: ["/api/groups", group.id, "conversation"],
+    queryFn: () => apiRequest<ConversationEntry[]>("GET", `/api/groups/${group.id}/conversation`),
+    refetchInterval: 10000,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">載入中...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">尚無對話紀錄，發送訊息或群組成員回覆後會顯示在這裡</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+      {entries.map(entry =>
+        entry.direction === "outbound" ? (
+          <div key={`out-${entry.delivery.id}`} className="flex justify-end">
+            <div className={`max-w-[80%] rounded-lg px-3 py-2 ${entry.delivery.success ? "bg-green-50" : "bg-red-50"}`}>
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                <span>{entry.message?.title || "測試發送"}</span>
+                {!entry.delivery.success && (
+                  <Badge className="bg-red-100 text-red-800 hover:bg-red-200">發送失敗</Badge>
+                )}
+                {entry.delivery.attempt > 1 && <span>第 {entry.delivery.attempt} 次嘗試</span>}
+              </div>
+              {entry.message && <p className="text-sm whitespace-pre-line line-clamp-6">{entry.message.content}</p>}
+              {!entry.delivery.success && entry.delivery.errorBody && (
+                <p className="text-xs text-red-700 mt-1 break-all">{entry.delivery.errorBody}</p>
+              )}
+              <div className="text-xs text-gray-400 text-right mt-1">{format(new Date(entry.at), "yyyy/MM/dd HH:mm")}</div>
+            </div>
+          </div>
+        ) : (
+          <div key={`in-${entry.inbound.id}`} className="flex justify-start">
+            <div className="max-w-[80%] rounded-lg px-3 py-2 bg-[#F0F0F0]">
+              <div className="text-xs text-gray-500 mb-1">
+                {entry.inbound.lineUserId ? `成員 …${entry.inbound.lineUserId.slice(-6)}` : "群組成員"}
+                {entry.inbound.quotedMessageId && "（回覆訊息）"}
+              </div>
+              {entry.inbound.type === "image" ? (
+                entry.inbound.mediaFile ? (
+                  <img src={`/api/inbound-messages/${entry.inbound.id}/media`} alt="群組成員傳送的圖片" className="max-h-48 rounded" />
+                ) : (
+                  <p className="text-sm text-gray-500">[圖片無法下載]</p>
+                )
+              ) : (
+                <p className="text-sm whitespace-pre-line">{entry.inbound.text}</p>
+              )}
+              <div className="text-xs text-gray-400 mt-1">{format(new Date(entry.at), "yyyy/MM/dd HH:mm")}</div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
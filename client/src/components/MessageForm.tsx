@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -16,18 +16,24 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { Group, Template, Message, MessageFormData } from "@shared/schema";
+import { Group, Template, Message, MessageFormData, MissedRunPolicy, missedRunPolicies, HolidayRule, holidayRules, Settings } from "@shared/schema";
+import { MonthEndOverflow, monthEndOverflows } from "@shared/rrule";
+import { DEFAULT_TIMEZONE, zonedDateTime } from "@shared/timezone";
+import { MessageFormat, isValidFlexJson, messageFormats } from "@shared/flex";
+import { MAX_ATTACHMENTS, MAX_MESSAGE_OBJECTS, MessageAttachment } from "@shared/attachments";
+import { MAX_TEXT_LENGTH, breakSentences, splitText } from "@shared/textSplit";
+import { findMissingVariables, userPlaceholders } from "@shared/templateRender";
+import { DEFAULT_AMOUNT_TEMPLATE, DEFAULT_CURRENCY, currencies, findAmountLine, formatAmountLine, formatMoney, validateAmount } from "@shared/currency";
+import FlexPreview, { flexPaymentExample } from "./FlexPreview";
+import AttachmentEditor, { attachmentThumbnail } from "./AttachmentEditor";
 import MessageTemplateSelector from "./MessageTemplateSelector";
 import ScheduleSelector from "./ScheduleSelector";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
 import moment from "moment-timezone";
 
-// 設定時區為台灣時區
-moment.tz.setDefault("Asia/Taipei");
-
 const formSchema = z.object({
   title: z.string().min(1, "訊息標題不能為空"),
   content: z.string().min(1, "訊息內容不能為空"),
@@ -36,15 +42,70 @@ const formSchema = z.object({
   groups: z.array(z.string()).min(1, "至少選擇一個群組"),
   scheduledDate: z.date(), // 這裡仍使用date類型以便於UI交互
   startTime: z.string(),
-  endTime: z.string(),
+  endTime: z.string().optional(), // 空字串表示不限制發送時段
   currency: z.string().optional(),
   amount: z.string().optional(),
   
   // 週期性發送選項
   recurringType: z.enum(["daily", "weekly", "monthly", "yearly"]).optional(),
+  rrule: z.string().optional(), // 空字串表示使用 recurringType 預設規則
   recurringActive: z.boolean().default(false),
+  missedRunPolicy: z.enum(missedRunPolicies).default("send_once_late"),
+  maxLatenessMinutes: z.string().regex(/^\d*$/, "請輸入整數分鐘數").optional(),
+  endMode: z.enum(["never", "until", "count"]).default("never"),
+  untilDate: z.string().optional(),
+  maxOccurrences: z.string().regex(/^\d*$/, "請輸入整數次數").optional(),
+  holidayRule: z.enum(holidayRules).default("none"),
+  monthEndOverflow: z.enum(monthEndOverflows).default("clamp"),
+  timezone: z.string().default(DEFAULT_TIMEZONE), // 日期與時間以此時區的當地時間解讀
+  windowJitter: z.boolean().default(false), // 在開始與結束時間之間隨機分散發送
+  format: z.enum(messageFormats).default("text"),
+  flexContent: z.string().optional(), // format 為 flex 時發送的 Flex JSON
+  variables: z.record(z.string()).default({}), // 範本變數填寫的值，未填寫的使用群組預設值
+  templateLinked: z.boolean().default(false), // 連結範本：發送時使用範本最新的內容
+  attachments: z.array(z.custom<MessageAttachment>()).max(MAX_ATTACHMENTS, `附件最多 ${MAX_ATTACHMENTS} 個`).default([]), // 附件由 AttachmentEditor 產生，伺服器端再驗證格式
+}).refine(data => data.format !== "flex" || isValidFlexJson(data.flexContent), {
+  message: "Flex JSON 格式錯誤，請參考下方預覽的錯誤說明",
+  path: ["flexContent"],
+}).refine(data => data.type !== "periodic" || data.endMode !== "until" || !!data.untilDate, {
+  message: "請選擇結束日期",
+  path: ["untilDate"],
+}).refine(data => data.type !== "periodic" || data.endMode !== "count" || parseInt(data.maxOccurrences || "0") > 0, {
+  message: "發送次數必須大於 0",
+  path: ["maxOccurrences"],
+}).superRefine((data, ctx) => {
+  const amountError = validateAmount(data.amount, data.currency);
+  if (amountError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: amountError, path: ["amount"] });
+  }
 });
 
+// 入帳、收款通知才需要填寫幣別與金額
+const isAmountNotice = (title: string) => title.includes("入帳") || title.includes("收款");
+
+const missedRunPolicyOptions: { value: MissedRunPolicy; label: string; description: string }[] = [
+  { value: "send_once_late", label: "補發一次", description: "錯過多次時只補發最近一次" },
+  { value: "send_all_missed", label: "全部補發", description: "每一次錯過的發送都補發" },
+  { value: "skip", label: "略過", description: "錯過的發送不補發，等待下一次" },
+];
+
+const holidayRuleOptions: { value: HolidayRule; label: string; description: string }[] = [
+  { value: "none", label: "照常發送", description: "不考慮假日" },
+  { value: "skip", label: "略過假日", description: "遇到假日不發送" },
+  { value: "next_business_day", label: "延到下一個工作日", description: "遇到假日改在之後第一個工作日發送" },
+  { value: "previous_business_day", label: "提前到上一個工作日", description: "遇到假日改在之前最後一個工作日發送" },
+];
+
+const monthEndOverflowOptions: { value: MonthEndOverflow; label: string; description: string }[] = [
+  { value: "clamp", label: "改在月底", description: "例如 31 日在 4 月改為 4/30 發送" },
+  { value: "skip", label: "該月不發送", description: "沒有這一天的月份略過" },
+  { value: "roll", label: "順延到下個月", description: "例如 1/31 設定在 2 月順延為 3/3 發送" },
+];
+
+// 每月/每年的規則才會遇到日期超過當月天數的問題
+const isMonthlyOrYearly = (recurringType?: string, rrule?: string) =>
+  rrule ? /FREQ=(MONTHLY|YEARLY)/.test(rrule) : recurringType === "monthly" || recurringType === "yearly";
+
 type MessageFormProps = {
   groups: Group[];
   templates: Template[];
@@ -58,19 +119,39 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const { toast } = useToast();
   
-  // 設置默認值，考慮是否存在現有消息
+  // 設置默認值，考慮是否存在現有消息；現有消息的日期時間以其時區顯示
+  // 連結範本的訊息顯示範本目前的內容
+  const existingZone = existingMessage?.timezone || DEFAULT_TIMEZONE;
+  const existingLinkedTemplate = existingMessage?.templateLinked
+    ? templates.find(t => t.id === existingMessage.templateId)
+    : undefined;
   const defaultValues = existingMessage 
     ? {
         title: existingMessage.title,
-        content: existingMessage.content,
+        content: existingLinkedTemplate?.content ?? existingMessage.content,
         type: existingMessage.type === "periodic" ? "periodic" : "single",
         multiGroup: existingMessage.groupIds.length > 1,
         groups: existingMessage.groupIds,
-        scheduledDate: new Date(existingMessage.scheduledTime),
-        startTime: format(new Date(existingMessage.scheduledTime || new Date()), "HH:mm"),
-        endTime: format(new Date(existingMessage.endTime || new Date()), "HH:mm"),
-        currency: existingMessage.currency || "TWD",
+        scheduledDate: new Date(moment(existingMessage.scheduledTime).tz(existingZone).format("YYYY-MM-DD[T00:00:00]")),
+        startTime: moment(existingMessage.scheduledTime || undefined).tz(existingZone).format("HH:mm"),
+        endTime: existingMessage.endTime ? moment(existingMessage.endTime).tz(existingZone).format("HH:mm") : "",
+        currency: existingMessage.currency || DEFAULT_CURRENCY,
         amount: existingMessage.amount || "",
+        rrule: existingMessage.rrule || "",
+        missedRunPolicy: (existingMessage.missedRunPolicy || "send_once_late") as MissedRunPolicy,
+        maxLatenessMinutes: existingMessage.maxLatenessMinutes?.toString() || "",
+        endMode: (existingMessage.until ? "until" : existingMessage.maxOccurrences ? "count" : "never") as "never" | "until" | "count",
+        untilDate: existingMessage.until ? moment(existingMessage.until).tz(existingZone).format("YYYY-MM-DD") : "",
+        maxOccurrences: existingMessage.maxOccurrences?.toString() || "",
+        holidayRule: (existingMessage.holidayRule || "none") as HolidayRule,
+        monthEndOverflow: (existingMessage.monthEndOverflow || "clamp") as MonthEndOverflow,
+        timezone: existingZone,
+        windowJitter: existingMessage.windowJitter ?? false,
+        format: (existingLinkedTemplate?.format || existingMessage.format || "text") as MessageFormat,
+        flexContent: (existingLinkedTemplate ? existingLinkedTemplate.flexContent : existingMessage.flexContent) || "",
+        attachments: existingMessage.attachments || [],
+        variables: existingMessage.variables || {},
+        templateLinked: existingMessage.templateLinked ?? false,
       }
     : {
         title: "",
@@ -80,9 +161,24 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
         groups: ["2"], // 默認為第二個群組（Anna群），而非第一個（小幫手）
         scheduledDate: new Date(),
         startTime: "16:00",
-        endTime: "16:15", // 修改為15分鐘間隔
-        currency: "TWD", // 預設台幣
+        endTime: "",
+        currency: DEFAULT_CURRENCY, // 預設台幣
         amount: "",
+        rrule: "",
+        missedRunPolicy: "send_once_late" as const,
+        maxLatenessMinutes: "",
+        endMode: "never" as const,
+        untilDate: "",
+        maxOccurrences: "",
+        holidayRule: "none" as const,
+        monthEndOverflow: "clamp" as const,
+        timezone: DEFAULT_TIMEZONE,
+        windowJitter: false,
+        format: "text" as const,
+        flexContent: "",
+        attachments: [],
+        variables: {},
+        templateLinked: false,
       };
   
   const form = useForm<z.infer<typeof formSchema>>({
@@ -97,8 +193,23 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
   const watchMultiGroup = form.watch("multiGroup");
   const watchContent = form.watch("content");
   const watchTitle = form.watch("title");
+  const watchFormat = form.watch("format");
+  const watchFlexContent = form.watch("flexContent");
+  const watchAttachments = form.watch("attachments");
+
+  // 發送時的則數：文字內容超過上限會拆成多則，每次推播最多 5 則
+  const textBubbleCount = watchFormat === "flex" ? 1 : splitText(breakSentences(watchContent || "")).length;
+  const messageObjectCount = textBubbleCount + (watchAttachments?.length || 0);
+  const pushCount = Math.ceil(messageObjectCount / MAX_MESSAGE_OBJECTS);
   const watchCurrency = form.watch("currency");
   const watchAmount = form.watch("amount");
+  const watchGroups = form.watch("groups");
+  const watchVariables = form.watch("variables");
+  const targetGroups = groups.filter(group => watchGroups.includes(group.id.toString()));
+  // 只能選擇已核准的群組；編輯時保留原本已選、之後停用的群組
+  const selectableGroups = groups.filter(group =>
+    group.status === "active" || watchGroups.includes(group.id.toString())
+  );
   
   // 當標題或內容改變時，自動清除對應的錯誤提示
   useEffect(() => {
@@ -113,78 +224,83 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
     }
   }, [watchContent, form]);
   
-  // 監聽金額和幣別變更，更新訊息內容
+  // 使用者變更群組時，若選擇的群組都在同一個時區，以該時區作為訊息時區
   useEffect(() => {
-    if ((watchTitle.includes("入帳") || watchTitle.includes("收款")) && watchAmount) {
-      // 獲取幣別符號
-      let currencySymbol = "";
-      if (watchCurrency === "TWD") currencySymbol = "NT$";
-      else if (watchCurrency === "USD") currencySymbol = "US$";
-      else if (watchCurrency === "AUD") currencySymbol = "AU$";
-      
-      // 構建金額字符串
-      const amountStr = `${currencySymbol}${watchAmount}`;
-      
-      // 檢查訊息內容是否已經包含了正確的金額信息
-      if (!watchContent.includes(amountStr)) {
-        // 替換或添加金額信息
-        let newContent = watchContent;
-        
-        // 先清理掉可能存在的舊的金額信息（包括重複的NT）
-        newContent = newContent.replace(/\n\n金額: (NT\$|US\$|AU\$)?[0-9,.]*/g, "");
-        newContent = newContent.replace(/(NT\$|US\$|AU\$)[0-9,.]*/g, "");
-        newContent = newContent.replace(/NT+/g, ""); // 清理重複的NT
-        
-        // 添加新的金額信息
-        if (newContent.includes("金額")) {
-          // 如果包含"金額"關鍵字，在其後添加金額
-          newContent = newContent.replace(/金額[：:]\s*[^\n]*/g, `金額: ${amountStr}`);
-        } else {
-          // 如果沒有找到適合的位置，直接添加到內容末尾
-          newContent = newContent + "\n\n金額: " + amountStr;
-        }
-        
-        // 更新表單內容
-        form.setValue("content", newContent);
-      }
+    if (!form.getFieldState("groups").isDirty) return;
+    const zones = new Set(
+      groups
+        .filter(group => watchGroups.includes(group.id.toString()))
+        .map(group => group.timezone || DEFAULT_TIMEZONE)
+    );
+    if (zones.size === 1) {
+      form.setValue("timezone", Array.from(zones)[0]);
     }
-  }, [watchCurrency, watchAmount, watchTitle, form]); // 移除 watchContent 依賴以避免無限循環
+  }, [watchGroups.join(","), groups, form]);
+
+  // 金額附加在內容時的格式，與伺服器發送時使用同一個設定
+  const { data: settings } = useQuery<Settings>({ queryKey: ["/api/settings"] });
+  const amountTemplate = settings?.amountTemplate || DEFAULT_AMOUNT_TEMPLATE;
+
+  // 監聽金額和幣別變更，更新內容中的金額那一行；只替換金額行，不動其他內容
+  const insertedAmountLine = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isAmountNotice(watchTitle) || !watchAmount || validateAmount(watchAmount, watchCurrency)) return;
+
+    const line = formatAmountLine(watchAmount, watchCurrency, amountTemplate);
+    const content = form.getValues("content") || "";
+    const previous = insertedAmountLine.current || findAmountLine(content, amountTemplate);
+    insertedAmountLine.current = line;
+    if (content.includes(line)) return;
+
+    form.setValue("content", previous && content.includes(previous)
+      ? content.replace(previous, line)
+      : `${content}\n\n${line}`);
+  }, [watchCurrency, watchAmount, watchTitle, amountTemplate, form]); // 不依賴 watchContent 以避免無限循環
+
+  // 可以連結的範本：這次選擇的範本，或編輯時訊息原本使用的範本
+  const linkableTemplate = selectedTemplate || templates.find(t => t.id === existingMessage?.templateId) || null;
+  const watchTemplateLinked = form.watch("templateLinked") && !!linkableTemplate;
+
+  const applyTemplateContent = (template: Template) => {
+    form.setValue("content", template.content);
+    form.setValue("format", (template.format || "text") as MessageFormat);
+    form.setValue("flexContent", template.flexContent || "");
+  };
 
   const handleTemplateSelect = (template: Template) => {
     setSelectedTemplate(template);
     form.setValue("title", template.name);
-    form.setValue("content", template.content);
+    applyTemplateContent(template);
+    form.setValue("variables", {});
+  };
+
+  // 開啟連結時以範本目前的內容取代訊息內容，連結期間內容由範本決定
+  const handleTemplateLinkedChange = (linked: boolean) => {
+    form.setValue("templateLinked", linked);
+    if (linked && linkableTemplate) {
+      applyTemplateContent(linkableTemplate);
+    }
   };
 
   const handleSubmit = async (data: z.infer<typeof formSchema>) => {
+    // 範本變數必須由填寫的值或每個目標群組的預設值提供
+    const placeholders = userPlaceholders(data.content, data.format === "flex" ? data.flexContent : null);
+    const missingVariables = findMissingVariables(placeholders, data.variables, targetGroups.map(group => group.variables));
+    if (missingVariables.length > 0) {
+      toast({
+        title: "範本變數未填寫",
+        description: `請填寫：${missingVariables.join("、")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       // Convert form data to API format
-      const [startHour, startMinute] = data.startTime.split(":").map(Number);
-      const [endHour, endMinute] = data.endTime.split(":").map(Number);
-      
-      // 使用moment-timezone處理時間，確保使用台灣時區
-      const scheduleDate = moment(data.scheduledDate).tz("Asia/Taipei");
-      
-      // 設置排程開始時間 (使用moment處理)
-      const scheduleTime = moment(scheduleDate)
-        .hour(startHour)
-        .minute(startMinute)
-        .second(0);
-      
-      // 設置排程結束時間 (使用moment處理)
-      const endTime = moment(scheduleDate)
-        .hour(endHour)
-        .minute(endMinute)
-        .second(0);
-      
-      // 輸出日誌，便於診斷
-      console.log("準備發送訊息，台灣時區日期時間:", {
-        scheduledDate: scheduleDate.format("YYYY-MM-DD HH:mm:ss"),
-        scheduleTime: scheduleTime.format("YYYY-MM-DD HH:mm:ss"),
-        endTime: endTime.format("YYYY-MM-DD HH:mm:ss"),
-        currentTimeStamp: moment().tz("Asia/Taipei").format("YYYY-MM-DD HH:mm:ss"),
-        timeDifference: scheduleTime.diff(moment(), 'minutes') + " 分鐘"
-      });
+      // 使用moment-timezone處理時間，以訊息時區的當地時間解讀選擇的日期與時間
+      const scheduleTime = zonedDateTime(data.scheduledDate, data.startTime, data.timezone);
+      // 只有選擇結束時間時才限制發送時段
+      const endTime = data.endTime ? zonedDateTime(data.scheduledDate, data.endTime, data.timezone) : null;
       
       // 格式化時間為ISO字符串以符合後端期望的格式
       const messageData = {
@@ -192,15 +308,40 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
         content: data.content,
         type: data.type,
         scheduledTime: scheduleTime.toISOString(), // 將moment對象轉換為ISO字符串
-        endTime: endTime.toISOString(), // 將moment對象轉換為ISO字符串
+        endTime: endTime ? endTime.toISOString() : null,
         status: "scheduled",
         groupIds: data.groups,
         currency: data.currency,
         amount: data.amount,
         // 週期性發送選項
         recurringType: data.type === "periodic" ? data.recurringType : null,
+        rrule: data.type === "periodic" && data.rrule ? data.rrule : null,
         recurringActive: data.type === "periodic" ? data.recurringActive : false,
-        lastSent: null // 初始時為null，系統會在第一次發送後更新
+        missedRunPolicy: data.missedRunPolicy,
+        maxLatenessMinutes: data.type === "periodic" && data.maxLatenessMinutes
+          ? parseInt(data.maxLatenessMinutes)
+          : null,
+        // 結束條件：結束日期包含當天整天
+        until: data.type === "periodic" && data.endMode === "until" && data.untilDate
+          ? moment.tz(data.untilDate, data.timezone).endOf("day").toISOString()
+          : null,
+        maxOccurrences: data.type === "periodic" && data.endMode === "count" && data.maxOccurrences
+          ? parseInt(data.maxOccurrences)
+          : null,
+        holidayRule: data.type === "periodic" ? data.holidayRule : "none",
+        monthEndOverflow: data.monthEndOverflow,
+        timezone: data.timezone,
+        windowJitter: !!endTime && data.windowJitter,
+        format: data.format,
+        flexContent: data.format === "flex" ? data.flexContent : null,
+        attachments: data.attachments,
+        // 只保留內容中有使用的變數
+        variables: Object.fromEntries(
+          Object.entries(data.variables || {}).filter(([name, value]) => placeholders.includes(name) && value !== "")
+        ),
+        // 記錄套用的範本與版本；編輯時沒有重新選擇範本則保留原本的紀錄
+        ...(selectedTemplate ? { templateId: selectedTemplate.id, templateVersion: selectedTemplate.version } : {}),
+        templateLinked: watchTemplateLinked,
       };
       
       // 定義響應類型
@@ -227,10 +368,26 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
           groups: ["2"], // 預設為Anna群組
           scheduledDate: new Date(),
           startTime: "16:00",
-          endTime: "18:00",
-          currency: "TWD",
+          endTime: "",
+          currency: DEFAULT_CURRENCY,
           amount: "",
+          rrule: "",
+          missedRunPolicy: "send_once_late",
+          maxLatenessMinutes: "",
+          endMode: "never",
+          untilDate: "",
+          maxOccurrences: "",
+          holidayRule: "none",
+          monthEndOverflow: "clamp",
+          timezone: DEFAULT_TIMEZONE,
+          windowJitter: false,
+          format: "text",
+          flexContent: "",
+          attachments: [],
+          variables: {},
+          templateLinked: false,
         });
+        setSelectedTemplate(null);
       }
       
       // 強制刷新排程列表，確保立即顯示新建立的排程
@@ -266,9 +423,24 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
       groups: ["2"], // 預設為Anna群組
       scheduledDate: new Date(),
       startTime: "16:00",
-      endTime: "16:15", // 修改為15分鐘間隔
-      currency: "TWD",
+      endTime: "",
+      currency: DEFAULT_CURRENCY,
       amount: "",
+      rrule: "",
+      missedRunPolicy: "send_once_late",
+      maxLatenessMinutes: "",
+      endMode: "never",
+      untilDate: "",
+      maxOccurrences: "",
+      holidayRule: "none",
+      monthEndOverflow: "clamp",
+      timezone: DEFAULT_TIMEZONE,
+      windowJitter: false,
+      format: "text",
+      flexContent: "",
+      attachments: [],
+      variables: {},
+      templateLinked: false,
     });
     setSelectedTemplate(null);
   };
@@ -339,6 +511,7 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                             <Select
                               value={field.value || "daily"}
                               onValueChange={field.onChange}
+                              disabled={!!form.watch("rrule")}
                             >
                               <FormControl>
                                 <SelectTrigger>
@@ -352,6 +525,166 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                                 <SelectItem value="yearly">每年</SelectItem>
                               </SelectContent>
                             </Select>
+                            {form.watch("rrule") && (
+                              <p className="text-xs text-gray-500">已使用排程設定中的自訂週期規則</p>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="endMode"
+                        render={({ field }) => (
+                          <FormItem className="mb-4">
+                            <FormLabel className="text-sm text-gray-700">結束條件</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="選擇結束條件" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="never">不結束</SelectItem>
+                                <SelectItem value="until">指定結束日期</SelectItem>
+                                <SelectItem value="count">發送指定次數後結束</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {form.watch("endMode") === "until" && (
+                        <FormField
+                          control={form.control}
+                          name="untilDate"
+                          render={({ field }) => (
+                            <FormItem className="mb-4">
+                              <FormLabel className="text-sm text-gray-700">結束日期（含當天）</FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      {form.watch("endMode") === "count" && (
+                        <FormField
+                          control={form.control}
+                          name="maxOccurrences"
+                          render={({ field }) => (
+                            <FormItem className="mb-4">
+                              <FormLabel className="text-sm text-gray-700">發送次數</FormLabel>
+                              <FormControl>
+                                <Input type="number" min={1} placeholder="例如 10" {...field} />
+                              </FormControl>
+                              {existingMessage && existingMessage.occurrenceCount > 0 && (
+                                <p className="text-xs text-gray-500">已發送 {existingMessage.occurrenceCount} 次</p>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      {isMonthlyOrYearly(form.watch("recurringType"), form.watch("rrule")) && (
+                        <FormField
+                          control={form.control}
+                          name="monthEndOverflow"
+                          render={({ field }) => (
+                            <FormItem className="mb-4">
+                              <FormLabel className="text-sm text-gray-700">當月沒有這一天時（29～31 日）</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="選擇月底處理方式" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {monthEndOverflowOptions.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                      {option.label} - {option.description}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      <FormField
+                        control={form.control}
+                        name="holidayRule"
+                        render={({ field }) => (
+                          <FormItem className="mb-4">
+                            <FormLabel className="text-sm text-gray-700">遇到假日時</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="選擇假日規則" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {holidayRuleOptions.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label} - {option.description}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-gray-500">假日與補班日可在「假日行事曆」頁面設定</p>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="missedRunPolicy"
+                        render={({ field }) => (
+                          <FormItem className="mb-4">
+                            <FormLabel className="text-sm text-gray-700">錯過發送時（例如系統停機）</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="選擇補發方式" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {missedRunPolicyOptions.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label} - {option.description}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="maxLatenessMinutes"
+                        render={({ field }) => (
+                          <FormItem className="mb-4">
+                            <FormLabel className="text-sm text-gray-700">最長補發延遲（分鐘）</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                placeholder="不限制"
+                                disabled={form.watch("missedRunPolicy") === "skip"}
+                                {...field}
+                              />
+                            </FormControl>
+                            <p className="text-xs text-gray-500">超過此延遲的發送不再補發，留空表示不限制</p>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -418,7 +751,7 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                           <FormControl>
                             {watchMultiGroup ? (
                               <div className="space-y-2">
-                                {groups.map((group) => (
+                                {selectableGroups.map((group) => (
                                   <div key={group.id} className="flex items-center space-x-2">
                                     <Checkbox
                                       id={`group-${group.id}`}
@@ -436,6 +769,8 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                                       className="text-sm cursor-pointer"
                                     >
                                       {group.name}
+                                      {group.status === "inactive" && <span className="text-xs text-gray-400">（Bot 已離開）</span>}
+                                      {group.unreachable && <span className="text-xs text-red-500">（無法送達）</span>}
                                     </label>
                                   </div>
                                 ))}
@@ -449,9 +784,9 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                                   <SelectValue placeholder="選擇群組" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {groups.map((group) => (
+                                  {selectableGroups.map((group) => (
                                     <SelectItem key={group.id} value={group.id.toString()}>
-                                      {group.name}
+                                      {group.name}{group.status === "inactive" && "（Bot 已離開）"}{group.unreachable && "（無法送達）"}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -464,6 +799,12 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                     />
                     {/* 移除新增群組按鈕，避免與頁面上方按鈕混淆。使用者應該前往群組管理頁面進行編輯 */}
                   </div>
+                  {targetGroups.some(group => group.unreachable) && (
+                    <p className="text-xs text-red-600 mt-1">
+                      {targetGroups.filter(group => group.unreachable).map(group => group.name).join("、")}
+                      已標記為無法送達（LINE Bot 不在群組內），發送時會略過，可到群組管理確認後恢復發送
+                    </p>
+                  )}
                 </div>
                 
                 {/* Message Template */}
@@ -471,7 +812,32 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                   templates={templates} 
                   selectedTemplate={selectedTemplate}
                   onSelectTemplate={handleTemplateSelect}
+                  content={watchContent || ""}
+                  flexContent={watchFormat === "flex" ? watchFlexContent : null}
+                  targetGroups={targetGroups}
+                  variableValues={watchVariables || {}}
+                  onVariableValuesChange={(values) => form.setValue("variables", values)}
                 />
+
+                {linkableTemplate && (
+                  <div className="mt-4 flex items-start gap-2 rounded-md border p-3">
+                    <Checkbox
+                      id="templateLinked"
+                      checked={watchTemplateLinked}
+                      onCheckedChange={(checked) => handleTemplateLinkedChange(checked === true)}
+                    />
+                    <div className="space-y-1">
+                      <label htmlFor="templateLinked" className="text-sm font-medium">
+                        連結範本「{linkableTemplate.name}」
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        {watchTemplateLinked
+                          ? "發送時使用範本最新的內容，修改範本後不需要逐一修改訊息；取消連結即可自行編輯內容"
+                          : "目前使用範本內容的複本，之後修改範本不會影響此訊息"}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Message Content */}
@@ -492,26 +858,110 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem className="mb-4">
+                      <FormLabel>訊息格式</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={watchTemplateLinked}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="選擇訊息格式" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="text">文字訊息</SelectItem>
+                          <SelectItem value="flex">Flex 訊息（卡片）</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {watchFormat === "flex" && (
+                  <div className="mb-4 space-y-2">
+                    <FormField
+                      control={form.control}
+                      name="flexContent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>Flex JSON</FormLabel>
+                            <Button
+                              type="button"
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0"
+                              disabled={watchTemplateLinked}
+                              onClick={() => form.setValue("flexContent", flexPaymentExample, { shouldValidate: true })}
+                            >
+                              插入款項通知範例
+                            </Button>
+                          </div>
+                          <FormControl>
+                            <Textarea
+                              placeholder='{"type": "bubble", "body": { ... }}'
+                              className="min-h-40 font-mono text-xs"
+                              readOnly={watchTemplateLinked}
+                              {...field}
+                              value={field.value || ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {watchFlexContent && <FlexPreview json={watchFlexContent} />}
+                  </div>
+                )}
+
                 <FormField
                   control={form.control}
                   name="content"
                   render={({ field }) => (
                     <FormItem className="mb-4">
-                      <FormLabel>訊息內容</FormLabel>
+                      <FormLabel>{watchFormat === "flex" ? "替代文字（通知與不支援 Flex 的裝置顯示）" : "訊息內容"}</FormLabel>
                       <FormControl>
                         <Textarea 
                           placeholder="輸入訊息內容" 
                           className="min-h-32 resize-none"
+                          readOnly={watchTemplateLinked}
                           {...field} 
                         />
                       </FormControl>
+                      {watchFormat !== "flex" && (
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>{(watchContent || "").length} 字（每則上限 {MAX_TEXT_LENGTH} 字）</span>
+                          <span>共 {messageObjectCount} 則訊息{pushCount > 1 && `，分 ${pushCount} 次推播`}</span>
+                        </div>
+                      )}
+                      {textBubbleCount > 1 && (
+                        <p className="text-xs text-amber-600">
+                          內容超過 {MAX_TEXT_LENGTH} 字，將依段落與句子拆成 {textBubbleCount} 則訊息發送
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="attachments"
+                  render={({ field }) => (
+                    <FormItem className="mb-4">
+                      <FormControl>
+                        <AttachmentEditor attachments={field.value || []} onChange={field.onChange} />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
                 {/* 幣別與金額區塊 - 僅在入帳通知或收款通知時顯示 */}
-                {(watchTitle.includes("入帳") || watchTitle.includes("收款")) && (
+                {isAmountNotice(watchTitle) && (
                   <div className="bg-gray-50 p-4 rounded-md space-y-4">
                     <h4 className="font-medium text-gray-700">通知金額設定</h4>
                     
@@ -532,9 +982,11 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                <SelectItem value="TWD">台幣 (TWD)</SelectItem>
-                                <SelectItem value="AUD">澳幣 (AUD)</SelectItem>
-                                <SelectItem value="USD">美金 (USD)</SelectItem>
+                                {currencies.map(currency => (
+                                  <SelectItem key={currency.code} value={currency.code}>
+                                    {currency.label} ({currency.code})
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                             <FormMessage />
@@ -551,7 +1003,8 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
                             <FormControl>
                               <Input 
                                 type="text" 
-                                placeholder="輸入金額" 
+                                inputMode="decimal"
+                                placeholder="例如 12,000" 
                                 {...field} 
                               />
                             </FormControl>
@@ -627,9 +1080,25 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
             
             <div className="space-y-1">
               <h3 className="text-sm font-medium">LINE訊息內容</h3>
-              <div className="bg-[#F0F0F0] p-4 rounded-lg space-y-2">
-                <p className="text-sm whitespace-pre-line">{watchContent}</p>
-              </div>
+              {watchFormat === "flex" && watchFlexContent ? (
+                <FlexPreview json={watchFlexContent} />
+              ) : (
+                <div className="bg-[#F0F0F0] p-4 rounded-lg space-y-2">
+                  <p className="text-sm whitespace-pre-line">{watchContent}</p>
+                </div>
+              )}
+              {watchAttachments?.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {watchAttachments.map((attachment, index) => (
+                    <img
+                      key={index}
+                      src={attachmentThumbnail(attachment)}
+                      alt={attachment.type === "image" ? "圖片" : "貼圖"}
+                      className="w-20 h-20 rounded-md object-cover"
+                    />
+                  ))}
+                </div>
+              )}
             </div>
             
             <div className="space-y-1">
@@ -640,14 +1109,11 @@ export default function MessageForm({ groups, templates, onSuccess, existingMess
             </div>
             
             {/* 顯示幣別和金額（如果有） */}
-            {(watchTitle.includes("入帳") || watchTitle.includes("收款")) && form.getValues("amount") && (
+            {isAmountNotice(watchTitle) && form.getValues("amount") && (
               <div className="space-y-1">
                 <h3 className="text-sm font-medium">通知金額</h3>
                 <p className="text-sm">
-                  {form.getValues("currency") === "TWD" && "NT$"}
-                  {form.getValues("currency") === "USD" && "US$"}
-                  {form.getValues("currency") === "AUD" && "AU$"}
-                  {form.getValues("amount")}
+                  {formatMoney(form.getValues("amount"), form.getValues("currency"))}
                 </p>
               </div>
             )}
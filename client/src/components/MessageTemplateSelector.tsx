@@ -1,18 +1,61 @@
-import { Template } from "@shared/schema";
+import { Group, Template } from "@shared/schema";
+import {
+  TemplateVariable,
+  TemplateVariableType,
+  findMissingVariables,
+  fromInputValue,
+  syncTemplateVariables,
+  toInputValue,
+  userPlaceholders,
+  validateVariableValue,
+} from "@shared/templateRender";
 import { FormLabel } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 
+// 各型別變數的輸入欄位
+const inputProps: Record<TemplateVariableType, React.InputHTMLAttributes<HTMLInputElement>> = {
+  text: { type: "text" },
+  number: { type: "number" },
+  amount: { type: "number", min: 0 },
+  date: { type: "date" },
+  month: { type: "number", min: 1, max: 12 },
+};
+
 type MessageTemplateSelectorProps = {
   templates: Template[];
   selectedTemplate: Template | null;
   onSelectTemplate: (template: Template) => void;
+  // 範本變數：依內容中使用的變數提示填寫，目標群組有預設值的可以不填
+  content: string;
+  flexContent?: string | null;
+  targetGroups: Group[];
+  variableValues: Record<string, string>;
+  onVariableValuesChange: (values: Record<string, string>) => void;
 };
 
 export default function MessageTemplateSelector({
   templates,
   selectedTemplate,
   onSelectTemplate,
+  content,
+  flexContent,
+  targetGroups,
+  variableValues,
+  onVariableValuesChange,
 }: MessageTemplateSelectorProps) {
+  const names = userPlaceholders(content, flexContent);
+  const variables = syncTemplateVariables(names, (selectedTemplate?.variables || []) as TemplateVariable[]);
+  const missing = findMissingVariables(names, variableValues, targetGroups.map(group => group.variables));
+
+  // 目標群組的預設值提示：全部相同時顯示該值，否則說明由各群組帶入
+  const defaultHint = (variable: TemplateVariable) => {
+    const defaults = targetGroups.map(group => group.variables?.[variable.name]).filter(Boolean);
+    if (targetGroups.length === 0 || defaults.length === 0) return variable.label;
+    if (defaults.length < targetGroups.length) return "部分群組沒有預設值，請填寫";
+    return new Set(defaults).size === 1 ? `群組預設值：${defaults[0]}` : "使用各群組的預設值";
+  };
+
   // Group templates by type for organization
   const templatesByType: Record<string, Template[]> = templates.reduce(
     (acc, template) => {
@@ -58,6 +101,36 @@ export default function MessageTemplateSelector({
           </button>
         ))}
       </div>
+
+      {variables.length > 0 && (
+        <div className="mt-4 bg-gray-50 p-4 rounded-md space-y-3">
+          <h4 className="font-medium text-gray-700">範本變數</h4>
+          {variables.map(variable => {
+            const value = variableValues[variable.name] || "";
+            const error = value
+              ? validateVariableValue(variable.type, value)
+              : missing.includes(variable.name) ? "請填寫此變數" : null;
+
+            return (
+              <div key={variable.name} className="grid grid-cols-1 md:grid-cols-3 items-center gap-2">
+                <label className="text-sm text-gray-700">
+                  {variable.label} <code className="text-xs text-gray-500">{`{{${variable.name}}}`}</code>
+                </label>
+                <Input
+                  className="md:col-span-2"
+                  {...inputProps[variable.type]}
+                  placeholder={defaultHint(variable)}
+                  value={toInputValue(variable.type, value)}
+                  onChange={(e) =>
+                    onVariableValuesChange({ ...variableValues, [variable.name]: fromInputValue(variable.type, e.target.value) })
+                  }
+                />
+                {error && <p className="md:col-start-2 md:col-span-2 text-xs text-red-600">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
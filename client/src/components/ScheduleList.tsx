@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Group, Message, Template } from "@shared/schema";
 import { format } from "date-fns";
+import moment from "moment-timezone";
+import { DEFAULT_TIMEZONE, timeZoneLabel } from "@shared/timezone";
 import { 
   Edit as EditIcon, 
   Trash2 as TrashIcon,
@@ -17,6 +19,50 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import MessageForm from "./MessageForm";
 
+type OccurrencePreviewResult = {
+  groupName: string;
+  timezone: string;
+  previews: { occurrenceAt: string; content?: string; error?: string }[];
+};
+
+// 接下來幾次發送的實際內容，{{ now | ... }} 等運算式以各次的發送時間計算
+function OccurrencePreview({ message }: { message: Message }) {
+  const { data, error, isLoading } = useQuery<OccurrencePreviewResult>({
+    queryKey: ["/api/messages", message.id, "preview"],
+    queryFn: () => apiRequest<OccurrencePreviewResult>("GET", `/api/messages/${message.id}/preview?count=3`),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">載入中...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-600">{error instanceof Error ? error.message : "無法預覽發送內容"}</p>;
+  }
+  if (data.previews.length === 0) {
+    return <p className="text-sm text-gray-500">已沒有之後的發送</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">以「{data.groupName}」的變數值預覽</p>
+      {data.previews.map(preview => (
+        <div key={preview.occurrenceAt} className="space-y-1">
+          <p className="text-xs font-medium text-gray-600">
+            {moment(preview.occurrenceAt).tz(data.timezone).format("YYYY/MM/DD HH:mm")}
+          </p>
+          {preview.error ? (
+            <p className="text-sm text-red-600">{preview.error}</p>
+          ) : (
+            <div className="bg-[#F0F0F0] p-3 rounded-lg">
+              <p className="text-sm whitespace-pre-line">{preview.content}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 type ScheduleListProps = {
   messages: Message[];
   groups: Group[];
@@ -98,15 +144,44 @@ export default function ScheduleList({ messages, groups, hideTitle = false, comp
     switch (status) {
       case "scheduled":
         return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">排程中</Badge>;
+      case "paused":
+        return <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-200" title="已在群組中以 /pause 暫停，輸入 /resume 恢復">已暫停</Badge>;
       case "sent":
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-200">已發送</Badge>;
+      case "partial":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">部分失敗</Badge>;
       case "failed":
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-200">失敗</Badge>;
+      case "expired":
+        return <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-200">已過期</Badge>;
+      case "completed":
+        return <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-200">已完成</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
   };
 
+  // 週期性訊息的結束條件：剩餘次數 / 結束日期
+  const getEndConditionText = (message: Message) => {
+    if (message.type !== "periodic") return "";
+
+    const parts: string[] = [];
+    if (message.maxOccurrences) {
+      const remaining = Math.max(0, message.maxOccurrences - (message.occurrenceCount ?? 0));
+      parts.push(`剩餘 ${remaining}/${message.maxOccurrences} 次`);
+    }
+    if (message.until) {
+      parts.push(`結束日期 ${format(new Date(message.until), "yyyy/MM/dd")}`);
+    }
+    return parts.join("，");
+  };
+
+  // 非台灣時區的訊息另外顯示當地時間
+  const getLocalTimeText = (message: Message) => {
+    if (!message.timezone || message.timezone === DEFAULT_TIMEZONE) return "";
+    return `${timeZoneLabel(message.timezone)}時間 ${moment(message.scheduledTime).tz(message.timezone).format("YYYY/MM/DD HH:mm")}`;
+  };
+
   return (
     <>
       <Card>
@@ -144,6 +219,12 @@ export default function ScheduleList({ messages, groups, hideTitle = false, comp
                           })(), 
                           "yyyy/MM/dd HH:mm"
                         )}
+                        {getLocalTimeText(message) && (
+                          <div className="text-xs text-gray-500">{getLocalTimeText(message)}</div>
+                        )}
+                        {getEndConditionText(message) && (
+                          <div className="text-xs text-gray-500">{getEndConditionText(message)}</div>
+                        )}
                       </TableCell>
                       <TableCell className="text-xs sm:text-sm">{message.title}</TableCell>
                       <TableCell className="text-xs sm:text-sm">{getGroupNames(message.groupIds)}</TableCell>
@@ -199,7 +280,7 @@ export default function ScheduleList({ messages, groups, hideTitle = false, comp
 
       {/* Message Details Dialog */}
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>排程訊息詳情</DialogTitle>
           </DialogHeader>
@@ -229,12 +310,39 @@ export default function ScheduleList({ messages, groups, hideTitle = false, comp
                     "yyyy/MM/dd HH:mm:ss"
                   )}
                 </p>
+                {getLocalTimeText(selectedMessage) && (
+                  <p className="text-xs text-gray-500">{getLocalTimeText(selectedMessage)}</p>
+                )}
               </div>
               
+              {getEndConditionText(selectedMessage) && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-medium">剩餘次數/結束日期</h3>
+                  <p className="text-sm">{getEndConditionText(selectedMessage)}</p>
+                </div>
+              )}
+              
               <div className="space-y-1">
                 <h3 className="text-sm font-medium">發送對象</h3>
                 <p className="text-sm">{getGroupNames(selectedMessage.groupIds)}</p>
               </div>
+
+              {selectedMessage.templateId && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-medium">使用範本</h3>
+                  <p className="text-sm flex items-center gap-2">
+                    <span>
+                      {templates.find(t => t.id === selectedMessage.templateId)?.name || `範本 #${selectedMessage.templateId}（已刪除）`}
+                      {!selectedMessage.templateLinked && selectedMessage.templateVersion && ` 第 ${selectedMessage.templateVersion} 版`}
+                    </span>
+                    {selectedMessage.templateLinked ? (
+                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">已連結，使用最新內容</Badge>
+                    ) : (
+                      <Badge variant="outline">複本</Badge>
+                    )}
+                  </p>
+                </div>
+              )}
               
               <div className="space-y-1">
                 <h3 className="text-sm font-medium">訊息內容</h3>
@@ -242,6 +350,13 @@ export default function ScheduleList({ messages, groups, hideTitle = false, comp
                   <p className="text-sm whitespace-pre-line">{selectedMessage.content}</p>
                 </div>
               </div>
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">
+                  {selectedMessage.type === "periodic" ? "接下來三次發送內容" : "發送內容預覽"}
+                </h3>
+                <OccurrencePreview message={selectedMessage} />
+              </div>
               
               <DialogFooter>
                 <Button
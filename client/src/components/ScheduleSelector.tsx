@@ -1,13 +1,27 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { UseFormReturn } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { Calendar } from "@/components/ui/calendar";
 import { FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { format } from "date-fns";
 import { zhTW } from "date-fns/locale";
 import { FiCalendar } from "react-icons/fi";
+import moment from "moment-timezone";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  RRule,
+  RRuleFrequency,
+  RRuleWeekday,
+  formatRRule,
+  parseRRule,
+  rruleWeekdays,
+} from "@shared/rrule";
+import { DEFAULT_TIMEZONE, commonTimeZones, timeZoneLabel, zonedDateTime } from "@shared/timezone";
 
 // Generate time options for select
 const generateTimeOptions = () => {
@@ -23,6 +37,303 @@ const generateTimeOptions = () => {
 };
 
 const timeOptions = generateTimeOptions();
+// 結束時間選單中「不限制」的值，表單中以空字串表示
+const NO_END_TIME = "none";
+
+const frequencyLabels: Record<RRuleFrequency, { label: string; unit: string }> = {
+  DAILY: { label: "每天", unit: "天" },
+  WEEKLY: { label: "每週", unit: "週" },
+  MONTHLY: { label: "每月", unit: "個月" },
+  YEARLY: { label: "每年", unit: "年" },
+};
+
+const weekdayLabels: Record<RRuleWeekday, string> = {
+  MO: "一", TU: "二", WE: "三", TH: "四", FR: "五", SA: "六", SU: "日",
+};
+
+const ordinalOptions = [
+  { value: "1", label: "第一個" },
+  { value: "2", label: "第二個" },
+  { value: "3", label: "第三個" },
+  { value: "4", label: "第四個" },
+  { value: "-1", label: "最後一個" },
+];
+
+type MonthlyMode = "monthday" | "nth_weekday" | "last_business_day";
+
+// 規則產生器的狀態，對應 RRULE 中常用的組合
+type BuilderState = {
+  freq: RRuleFrequency;
+  interval: number;
+  weekdays: RRuleWeekday[];
+  monthlyMode: MonthlyMode;
+  ordinal: number;
+  weekday: RRuleWeekday;
+};
+
+const businessDays: RRuleWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+function builderToRRule(state: BuilderState): RRule {
+  const rule: RRule = { freq: state.freq, interval: Math.max(1, state.interval || 1) };
+
+  if (state.freq === "WEEKLY" && state.weekdays.length > 0) {
+    rule.byDay = rruleWeekdays
+      .filter(w => state.weekdays.includes(w))
+      .map(weekday => ({ weekday }));
+  }
+
+  if (state.freq === "MONTHLY") {
+    if (state.monthlyMode === "nth_weekday") {
+      rule.byDay = [{ weekday: state.weekday, ordinal: state.ordinal }];
+    } else if (state.monthlyMode === "last_business_day") {
+      rule.byDay = businessDays.map(weekday => ({ weekday }));
+      rule.bySetPos = [-1];
+    }
+  }
+
+  return rule;
+}
+
+// 將既有的 RRULE 盡量還原成產生器的狀態
+function rruleToBuilder(rrule: string, fallbackWeekday: RRuleWeekday): BuilderState {
+  const state: BuilderState = {
+    freq: "WEEKLY",
+    interval: 1,
+    weekdays: [fallbackWeekday],
+    monthlyMode: "monthday",
+    ordinal: 1,
+    weekday: fallbackWeekday,
+  };
+
+  try {
+    const rule = parseRRule(rrule);
+    state.freq = rule.freq;
+    state.interval = rule.interval;
+    if (rule.freq === "WEEKLY" && rule.byDay?.length) {
+      state.weekdays = rule.byDay.map(d => d.weekday);
+    }
+    if (rule.freq === "MONTHLY" && rule.byDay?.length) {
+      if (rule.bySetPos?.[0] === -1 && rule.byDay.length === businessDays.length) {
+        state.monthlyMode = "last_business_day";
+      } else if (rule.byDay[0].ordinal) {
+        state.monthlyMode = "nth_weekday";
+        state.ordinal = rule.byDay[0].ordinal;
+        state.weekday = rule.byDay[0].weekday;
+      }
+    }
+  } catch {
+    // 無法解析時使用預設值
+  }
+
+  return state;
+}
+
+type SchedulePreview = {
+  rrule: string | null;
+  occurrences: string[];
+};
+
+// 週期規則產生器：可使用預設的每天/每週/每月/每年，或自訂間隔、星期幾、第幾個星期幾等規則，
+// 並向伺服器預覽接下來的發送時間
+function RecurrenceRuleBuilder({ form }: ScheduleSelectorProps) {
+  const scheduledDate: Date = form.watch("scheduledDate");
+  const startTime: string = form.watch("startTime");
+  const recurringType: string | undefined = form.watch("recurringType");
+  const rrule: string = form.watch("rrule") || "";
+  const endMode: string = form.watch("endMode") || "never";
+  const untilDate: string = form.watch("untilDate") || "";
+  const maxOccurrences: string = form.watch("maxOccurrences") || "";
+  const holidayRule: string = form.watch("holidayRule") || "none";
+  const monthEndOverflow: string = form.watch("monthEndOverflow") || "clamp";
+  const timezone: string = form.watch("timezone") || DEFAULT_TIMEZONE;
+  const customEnabled = rrule !== "";
+
+  const scheduledTime = zonedDateTime(scheduledDate, startTime || "00:00", timezone);
+  const startWeekday = rruleWeekdays[(scheduledTime.isoWeekday() + 6) % 7];
+
+  const [state, setState] = useState<BuilderState>(() => rruleToBuilder(rrule, startWeekday));
+
+  // 產生器變更時同步更新表單中的 RRULE
+  useEffect(() => {
+    if (customEnabled) {
+      form.setValue("rrule", formatRRule(builderToRRule(state)));
+    }
+  }, [state, customEnabled, form]);
+
+  const previewBody = {
+    scheduledTime: scheduledTime.toISOString(),
+    rrule: customEnabled ? rrule : null,
+    recurringType: customEnabled ? null : recurringType || "daily",
+    until: endMode === "until" && untilDate
+      ? moment.tz(untilDate, timezone).endOf("day").toISOString()
+      : null,
+    maxOccurrences: endMode === "count" && parseInt(maxOccurrences) > 0 ? parseInt(maxOccurrences) : null,
+    holidayRule,
+    monthEndOverflow,
+    timezone,
+    count: 5,
+  };
+
+  const { data: preview, error: previewError } = useQuery<SchedulePreview>({
+    queryKey: ["/api/schedules/preview", previewBody],
+    queryFn: () => apiRequest<SchedulePreview>("POST", "/api/schedules/preview", previewBody),
+  });
+
+  const update = (changes: Partial<BuilderState>) => setState(prev => ({ ...prev, ...changes }));
+
+  const toggleWeekday = (weekday: RRuleWeekday) => {
+    const weekdays = state.weekdays.includes(weekday)
+      ? state.weekdays.filter(w => w !== weekday)
+      : [...state.weekdays, weekday];
+    update({ weekdays });
+  };
+
+  return (
+    <div className="mt-4 p-3 border rounded-md bg-white space-y-4">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="custom-rrule"
+          checked={customEnabled}
+          onCheckedChange={(checked) => {
+            form.setValue("rrule", checked ? formatRRule(builderToRRule(state)) : "");
+          }}
+        />
+        <label htmlFor="custom-rrule" className="text-sm text-gray-700 cursor-pointer">
+          使用自訂週期規則（例如每兩週、每週一三五、每月第一個星期四、每月最後一個工作日）
+        </label>
+      </div>
+
+      {customEnabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <FormLabel>頻率</FormLabel>
+              <Select
+                value={state.freq}
+                onValueChange={(value) => update({ freq: value as RRuleFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(frequencyLabels).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <FormLabel>間隔</FormLabel>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">每</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={state.interval}
+                  onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+                  className="w-20"
+                />
+                <span className="text-sm text-gray-600">{frequencyLabels[state.freq].unit}</span>
+              </div>
+            </div>
+          </div>
+
+          {state.freq === "WEEKLY" && (
+            <div className="space-y-1">
+              <FormLabel>星期</FormLabel>
+              <div className="flex flex-wrap gap-1">
+                {rruleWeekdays.map((weekday) => (
+                  <Button
+                    key={weekday}
+                    type="button"
+                    size="sm"
+                    variant={state.weekdays.includes(weekday) ? "default" : "outline"}
+                    onClick={() => toggleWeekday(weekday)}
+                  >
+                    {weekdayLabels[weekday]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {state.freq === "MONTHLY" && (
+            <div className="space-y-2">
+              <FormLabel>每月發送日</FormLabel>
+              <Select
+                value={state.monthlyMode}
+                onValueChange={(value) => update({ monthlyMode: value as MonthlyMode })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthday">每月 {scheduledTime.date()} 日（依開始日期）</SelectItem>
+                  <SelectItem value="nth_weekday">第幾個星期幾</SelectItem>
+                  <SelectItem value="last_business_day">最後一個工作日</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {state.monthlyMode === "nth_weekday" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={state.ordinal.toString()}
+                    onValueChange={(value) => update({ ordinal: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ordinalOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={state.weekday}
+                    onValueChange={(value) => update({ weekday: value as RRuleWeekday })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rruleWeekdays.map((weekday) => (
+                        <SelectItem key={weekday} value={weekday}>星期{weekdayLabels[weekday]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-700">接下來的發送時間</p>
+        {preview?.rrule && (
+          <p className="text-xs font-mono text-gray-500">RRULE:{preview.rrule}</p>
+        )}
+        {previewError ? (
+          <p className="text-sm text-red-600">無法預覽：{previewError instanceof Error ? previewError.message : String(previewError)}</p>
+        ) : preview && preview.occurrences.length === 0 ? (
+          <p className="text-sm text-gray-500">此規則沒有接下來的發送時間</p>
+        ) : (
+          <ul className="text-sm text-gray-600 list-disc list-inside">
+            {preview?.occurrences.map((occurrence) => (
+              <li key={occurrence}>
+                {moment(occurrence).tz(timezone).format("YYYY/MM/DD (dd) HH:mm")}
+                {timezone !== DEFAULT_TIMEZONE && (
+                  <span className="text-gray-400">（台北 {moment(occurrence).tz(DEFAULT_TIMEZONE).format("MM/DD HH:mm")}）</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
 
 type ScheduleSelectorProps = {
   form: UseFormReturn<any>;
@@ -30,6 +341,9 @@ type ScheduleSelectorProps = {
 
 export default function ScheduleSelector({ form }: ScheduleSelectorProps) {
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const timezone: string = form.watch("timezone") || DEFAULT_TIMEZONE;
+  const startTime: string = form.watch("startTime") || "00:00";
+  const sendTime = zonedDateTime(form.watch("scheduledDate"), startTime, timezone);
   
   return (
     <div className="mb-6">
@@ -128,8 +442,8 @@ export default function ScheduleSelector({ form }: ScheduleSelectorProps) {
                     <FormItem>
                       <FormLabel>結束時間</FormLabel>
                       <Select
-                        value={field.value}
-                        onValueChange={field.onChange}
+                        value={field.value || NO_END_TIME}
+                        onValueChange={value => field.onChange(value === NO_END_TIME ? "" : value)}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -137,6 +451,7 @@ export default function ScheduleSelector({ form }: ScheduleSelectorProps) {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
+                          <SelectItem value={NO_END_TIME}>不限制</SelectItem>
                           {timeOptions.map((time) => (
                             <SelectItem key={time} value={time}>
                               {time}
@@ -149,9 +464,71 @@ export default function ScheduleSelector({ form }: ScheduleSelectorProps) {
                   )}
                 />
               </div>
+
+              <p className="mt-2 text-xs text-gray-500">
+                選擇結束時間時，開始到結束時間為發送時段，系統停機或重試延誤超過結束時間時不再發送，標記為過期；
+                不限制時依錯過發送的處理方式補發
+              </p>
+
+              <FormField
+                control={form.control}
+                name="windowJitter"
+                render={({ field }) => (
+                  <FormItem className="mt-2 flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value && !!form.watch("endTime")}
+                        onCheckedChange={field.onChange}
+                        disabled={!form.watch("endTime")}
+                        id="window-jitter"
+                      />
+                    </FormControl>
+                    <label
+                      htmlFor="window-jitter"
+                      className="text-sm text-gray-700 font-normal leading-none cursor-pointer"
+                    >
+                      在發送時段內隨機分散發送時間
+                    </label>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem className="mt-4">
+                    <FormLabel>時區</FormLabel>
+                    <Select value={field.value || DEFAULT_TIMEZONE} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="選擇時區" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {commonTimeZones.map((zone) => (
+                          <SelectItem key={zone.value} value={zone.value}>
+                            {zone.label}（{zone.value}）
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {timezone !== DEFAULT_TIMEZONE && (
+                      <p className="text-sm text-gray-600">
+                        在{timeZoneLabel(timezone)}時間 {sendTime.format("HH:mm")} 發送 = 台北時間{" "}
+                        {sendTime.clone().tz(DEFAULT_TIMEZONE).format("MM/DD HH:mm")}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
           </div>
         </div>
+
+        {/* 週期規則 - 僅當類型為週期性發送時顯示 */}
+        {form.watch("type") === "periodic" && <RecurrenceRuleBuilder form={form} />}
       </div>
     </div>
   );
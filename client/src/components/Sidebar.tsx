@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { FiMessageSquare, FiCalendar, FiClock, FiUsers, FiFileText, FiSettings, FiMenu, FiSend, FiSearch } from "react-icons/fi";
+import { FiMessageSquare, FiCalendar, FiClock, FiUsers, FiFileText, FiSettings, FiMenu, FiSend, FiSearch, FiSun } from "react-icons/fi";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { Settings } from "@shared/schema";
@@ -49,6 +49,11 @@ export default function Sidebar({ currentPath }: SidebarProps) {
       path: "/test-send",
       icon: <FiSend className="h-5 w-5" />,
     },
+    {
+      name: "假日行事曆",
+      path: "/holidays",
+      icon: <FiSun className="h-5 w-5" />,
+    },
     {
       name: "系統設定",
       path: "/settings",
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Template, TemplateVersion } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { diffLines } from "@/lib/diff";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+type DiffViewProps = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+// 逐行顯示差異：刪除的行為紅色、新增的行為綠色
+function DiffView({ label, before, after }: DiffViewProps) {
+  if (before === after) return null;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-medium text-gray-600">{label}</h4>
+      <pre className="text-xs rounded-md border bg-white overflow-x-auto max-h-64">
+        {diffLines(before, after).map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.type === "added" ? "bg-green-50 text-green-800"
+                : line.type === "removed" ? "bg-red-50 text-red-800 line-through"
+                : "text-gray-600"
+            }
+          >
+            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+            {line.text || " "}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+type TemplateVersionHistoryProps = {
+  template: Template;
+  onRestored?: (template: Template) => void;
+};
+
+// 範本的版本紀錄：選擇版本查看與前一版的差異，並可還原到該版本
+export default function TemplateVersionHistory({ template, onRestored }: TemplateVersionHistoryProps) {
+  const { toast } = useToast();
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: versions = [], isLoading } = useQuery<TemplateVersion[]>({
+    queryKey: ["/api/templates", template.id, "versions"],
+    queryFn: () => apiRequest<TemplateVersion[]>("GET", `/api/templates/${template.id}/versions`),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">載入中...</p>;
+  }
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500">此模板尚無版本紀錄，修改後會開始記錄</p>;
+  }
+
+  const selected = versions.find(v => v.version === selectedVersion) || versions[0];
+  // 版本依新到舊排列，前一版在後面
+  const previous = versions[versions.indexOf(selected) + 1];
+
+  const handleRestore = async () => {
+    if (!confirm(`確定要還原到第 ${selected.version} 版嗎？目前的內容會保留在版本紀錄中。`)) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await apiRequest<Template>("POST", `/api/templates/${template.id}/versions/${selected.version}/restore`);
+      toast({
+        title: "模板已還原",
+        description: `已還原到第 ${selected.version} 版，並儲存為第 ${restored.version} 版。`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setSelectedVersion(restored.version);
+      onRestored?.(restored);
+    } catch (error) {
+      toast({
+        title: "還原失敗",
+        description: "還原模板時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-4">
+      <div className="space-y-1 max-h-96 overflow-y-auto">
+        {versions.map(version => (
+          <button
+            key={version.version}
+            type="button"
+            className={`w-full text-left rounded-md border px-3 py-2 text-sm ${
+              version.version === selected.version ? "border-primary bg-primary/5" : "hover:bg-gray-50"
+            }`}
+            onClick={() => setSelectedVersion(version.version)}
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-medium">第 {version.version} 版</span>
+              {version.version === template.version && (
+                <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">目前</Badge>
+              )}
+            </div>
+            <div className="text-xs text-gray-500">{format(new Date(version.createdAt), "yyyy/MM/dd HH:mm")}</div>
+            {version.restoredFrom && (
+              <div className="text-xs text-gray-500">由第 {version.restoredFrom} 版還原</div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          {previous ? `第 ${previous.version} 版 → 第 ${selected.version} 版的差異` : `第 ${selected.version} 版的內容`}
+        </p>
+        {previous ? (
+          <>
+            <DiffView label="模板名稱" before={previous.name} after={selected.name} />
+            <DiffView label="訊息內容" before={previous.content} after={selected.content} />
+            <DiffView label="Flex JSON" before={previous.flexContent || ""} after={selected.flexContent || ""} />
+            {previous.name === selected.name && previous.content === selected.content
+              && (previous.flexContent || "") === (selected.flexContent || "") && (
+              <p className="text-xs text-gray-500">內容相同，僅變更類型、格式或變數設定</p>
+            )}
+          </>
+        ) : (
+          <div className="bg-[#F0F0F0] p-4 rounded-lg">
+            <p className="text-sm whitespace-pre-line">{selected.content}</p>
+          </div>
+        )}
+
+        {selected.version !== template.version && (
+          <Button type="button" variant="outline" onClick={handleRestore} disabled={isRestoring}>
+            {isRestoring ? "還原中..." : `還原到第 ${selected.version} 版`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
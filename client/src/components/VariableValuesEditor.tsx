@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+
+type VariableValuesEditorProps = {
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+};
+
+// 範本變數值的名稱/值列表編輯，例如群組的 invoice_no 預設值
+// 編輯中允許空白或重複的名稱，回傳時略過沒有名稱的列
+export default function VariableValuesEditor({ value, onChange }: VariableValuesEditorProps) {
+  const [rows, setRows] = useState<[string, string][]>(() => Object.entries(value || {}));
+
+  const update = (next: [string, string][]) => {
+    setRows(next);
+    onChange(Object.fromEntries(next.filter(([name]) => name.trim() !== "").map(([name, v]) => [name.trim(), v])));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map(([name, v], index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            className="w-40 font-mono text-sm"
+            placeholder="invoice_no"
+            value={name}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))}
+          />
+          <Input
+            placeholder="預設值"
+            value={v}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [row[0], e.target.value] : row)))}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => update(rows.filter((_, i) => i !== index))}
+            title="移除變數"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, ["", ""]])}>
+        <Plus className="h-4 w-4 mr-1" /> 新增變數
+      </Button>
+    </div>
+  );
+}
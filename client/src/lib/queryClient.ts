@@ -40,3 +40,19 @@ export async function apiRequest<T = any>(
 
   return res.json();
 }
+
+// 上傳檔案：請求本文為檔案原始內容，Content-Type 使用檔案本身的類型
+export async function uploadRequest<T = any>(path: string, file: Blob): Promise<T> {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file,
+  });
+
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new Error(`API Error ${res.status}: ${errorText}`);
+  }
+
+  return res.json();
+}
@@ -9,34 +9,97 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Pencil, Trash2 } from "lucide-react";
-import { Group, insertGroupSchema } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, MessagesSquare, Pencil, RotateCcw, Trash2, X } from "lucide-react";
+import { Group, DeliveryPolicy, GroupStatus, insertGroupSchema } from "@shared/schema";
+import { DEFAULT_TIMEZONE, commonTimeZones, timeZoneLabel } from "@shared/timezone";
+import VariableValuesEditor from "@/components/VariableValuesEditor";
+import GroupConversation from "@/components/GroupConversation";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
 
 const formSchema = insertGroupSchema.extend({
   name: z.string().min(1, "群組名稱不能為空"),
   lineId: z.string().min(1, "LINE ID不能為空"),
 });
 
+const deliveryPolicyOptions: { value: DeliveryPolicy; label: string; description: string }[] = [
+  { value: "strict", label: "一般", description: "發送失敗時訊息標記為失敗" },
+  { value: "best_effort", label: "容忍失敗", description: "嘗試發送，失敗仍視為成功（錯誤會保留在發送紀錄）" },
+  { value: "disabled", label: "停用", description: "暫停發送到此群組" },
+];
+
+const getDeliveryPolicyBadge = (policy: string) => {
+  switch (policy) {
+    case "best_effort":
+      return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">容忍失敗</Badge>;
+    case "disabled":
+      return <Badge className="bg-gray-200 text-gray-700 hover:bg-gray-300">停用</Badge>;
+    default:
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-200">一般</Badge>;
+  }
+};
+
+type PendingGroupRowProps = {
+  group: Group;
+  onApprove: (group: Group, name: string) => void;
+  onIgnore: (group: Group) => void;
+};
+
+// 新發現群組的一列：可先修改名稱再核准
+function PendingGroupRow({ group, onApprove, onIgnore }: PendingGroupRowProps) {
+  const [name, setName] = useState(group.name);
+
+  return (
+    <TableRow className="border-b border-gray-200">
+      <TableCell>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="輸入群組名稱" />
+      </TableCell>
+      <TableCell className="font-mono text-xs">{group.lineId}</TableCell>
+      <TableCell>{group.memberCount ?? "-"}</TableCell>
+      <TableCell>{group.joinedAt ? format(new Date(group.joinedAt), "yyyy/MM/dd HH:mm") : "-"}</TableCell>
+      <TableCell className="text-center">
+        <div className="flex justify-center space-x-2">
+          <Button size="sm" onClick={() => onApprove(group, name)} disabled={name.trim() === ""}>
+            <Check className="h-4 w-4 mr-1" /> 核准
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onIgnore(group)}>
+            <X className="h-4 w-4 mr-1" /> 忽略
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
 export default function GroupManagement() {
   const { toast } = useToast();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [currentGroup, setCurrentGroup] = useState<Group | null>(null);
+  const [conversationGroup, setConversationGroup] = useState<Group | null>(null);
 
   // Fetch groups
   const { data: groups, isLoading } = useQuery<Group[]>({
     queryKey: ["/api/groups"],
   });
 
+  // Bot 被加入後自動登記、等待核准的群組不列在群組清單中
+  const pendingGroups = (groups || []).filter(group => group.status === "pending");
+  const listedGroups = (groups || []).filter(group => group.status !== "pending");
+
   // Add group form
   const addForm = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       lineId: "",
+      deliveryPolicy: "strict",
+      timezone: DEFAULT_TIMEZONE,
+      variables: {},
     },
   });
 
@@ -46,6 +109,9 @@ export default function GroupManagement() {
     defaultValues: {
       name: "",
       lineId: "",
+      deliveryPolicy: "strict",
+      timezone: DEFAULT_TIMEZONE,
+      variables: {},
     },
   });
 
@@ -121,11 +187,69 @@ export default function GroupManagement() {
     }
   };
 
+  const handleApproveGroup = async (group: Group, name: string) => {
+    try {
+      await apiRequest("PUT", `/api/groups/${group.id}`, { name: name.trim(), status: "active" });
+
+      toast({
+        title: "群組已核准",
+        description: `「${name.trim()}」已加入群組清單，可以開始排程訊息。`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    } catch (error) {
+      toast({
+        title: "核准失敗",
+        description: "核准群組時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleIgnoreGroup = async (group: Group) => {
+    if (!confirm(`確定要忽略「${group.name}」嗎？Bot 下次被加入此群組時會再次出現。`)) return;
+
+    try {
+      await apiRequest("DELETE", `/api/groups/${group.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    } catch (error) {
+      toast({
+        title: "操作失敗",
+        description: "忽略群組時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 確認 Bot 已回到群組後手動清除無法送達標記
+  const handleRestoreGroup = async (group: Group) => {
+    try {
+      await apiRequest("PUT", `/api/groups/${group.id}`, { unreachable: false, notMemberFailures: 0, unreachableAt: null });
+
+      toast({
+        title: "已恢復發送",
+        description: `之後的訊息會再次發送到「${group.name}」。`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+    } catch (error) {
+      toast({
+        title: "操作失敗",
+        description: "恢復群組發送時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    }
+  };
+
   const openEditDialog = (group: Group) => {
     setCurrentGroup(group);
     editForm.reset({
       name: group.name,
       lineId: group.lineId,
+      deliveryPolicy: group.deliveryPolicy as DeliveryPolicy,
+      timezone: group.timezone || DEFAULT_TIMEZONE,
+      variables: group.variables || {},
+      status: group.status as GroupStatus,
     });
     setIsEditDialogOpen(true);
   };
@@ -158,6 +282,9 @@ export default function GroupManagement() {
             <p className="text-sm text-blue-700">
               機器人將直接回覆該群組的ID，您可以複製並在此系統中使用。
             </p>
+            <p className="text-sm text-blue-700">
+              將機器人加入新的LINE群組時，系統也會自動登記該群組，並顯示在「新發現的群組」中等待核准。
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -180,6 +307,42 @@ export default function GroupManagement() {
         </CardContent>
       </Card>
 
+      {pendingGroups.length > 0 && (
+        <Card className="border-amber-200">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">新發現的群組</CardTitle>
+            <p className="text-sm text-gray-500">
+              機器人剛被加入以下群組，確認名稱後核准即可作為發送對象；核准前不會發送任何訊息。
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="font-medium">群組名稱</TableHead>
+                    <TableHead className="font-medium">LINE ID</TableHead>
+                    <TableHead className="font-medium">人數</TableHead>
+                    <TableHead className="font-medium">加入時間</TableHead>
+                    <TableHead className="text-center font-medium">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingGroups.map((group) => (
+                    <PendingGroupRow
+                      key={group.id}
+                      group={group}
+                      onApprove={handleApproveGroup}
+                      onIgnore={handleIgnoreGroup}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -198,17 +361,57 @@ export default function GroupManagement() {
                 <TableRow className="bg-gray-50">
                   <TableHead className="font-medium">群組名稱</TableHead>
                   <TableHead className="font-medium">LINE ID</TableHead>
+                  <TableHead className="font-medium">發送規則</TableHead>
+                  <TableHead className="font-medium">時區</TableHead>
                   <TableHead className="text-center font-medium">操作</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {groups && groups.length > 0 ? (
-                  groups.map((group) => (
+                {listedGroups.length > 0 ? (
+                  listedGroups.map((group) => (
                     <TableRow key={group.id} className="border-b border-gray-200 hover:bg-gray-50">
-                      <TableCell className="font-medium">{group.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {group.name}
+                        {group.status === "inactive" && (
+                          <Badge
+                            className="ml-2 bg-gray-200 text-gray-700 hover:bg-gray-300"
+                            title={group.leftAt ? `離開時間：${format(new Date(group.leftAt), "yyyy/MM/dd HH:mm")}` : undefined}
+                          >
+                            Bot 已離開
+                          </Badge>
+                        )}
+                        {group.unreachable && (
+                          <Badge
+                            className="ml-2 bg-red-100 text-red-800 hover:bg-red-200"
+                            title={`連續推播失敗（Bot 不在群組內），已停止發送${group.unreachableAt ? `，標記時間：${format(new Date(group.unreachableAt), "yyyy/MM/dd HH:mm")}` : ""}`}
+                          >
+                            無法送達
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{group.lineId}</TableCell>
+                      <TableCell>{getDeliveryPolicyBadge(group.deliveryPolicy)}</TableCell>
+                      <TableCell>{timeZoneLabel(group.timezone)}</TableCell>
                       <TableCell className="text-center">
                         <div className="flex justify-center space-x-2">
+                          {group.unreachable && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRestoreGroup(group)}
+                              title="恢復發送"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setConversationGroup(group)}
+                            title="對話紀錄"
+                          >
+                            <MessagesSquare className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -231,7 +434,7 @@ export default function GroupManagement() {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={3} className="text-center py-10">
+                    <TableCell colSpan={5} className="text-center py-10">
                       <div className="flex flex-col items-center space-y-2">
                         <p className="text-gray-500">尚未新增任何群組</p>
                         <p className="text-sm text-gray-400">
@@ -249,7 +452,7 @@ export default function GroupManagement() {
 
       {/* Add Group Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>新增LINE群組</DialogTitle>
           </DialogHeader>
@@ -284,6 +487,74 @@ export default function GroupManagement() {
                 )}
               />
 
+              <FormField
+                control={addForm.control}
+                name="deliveryPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>發送規則</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="選擇發送規則" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {deliveryPolicyOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} - {option.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={addForm.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>時區</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="選擇時區" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {commonTimeZones.map((zone) => (
+                          <SelectItem key={zone.value} value={zone.value}>
+                            {zone.label}（{zone.value}）
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">發送到此群組的新訊息預設使用此時區</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={addForm.control}
+                name="variables"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>範本變數預設值</FormLabel>
+                    <FormControl>
+                      <VariableValuesEditor value={field.value || {}} onChange={field.onChange} />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      範本中的 {"{名稱}"} 發送到此群組時自動帶入，例如發票號碼、匯款帳號
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button type="submit">儲存</Button>
               </DialogFooter>
@@ -292,9 +563,19 @@ export default function GroupManagement() {
         </DialogContent>
       </Dialog>
 
+      {/* Conversation Dialog */}
+      <Dialog open={!!conversationGroup} onOpenChange={(open) => !open && setConversationGroup(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{conversationGroup?.name} - 對話紀錄</DialogTitle>
+          </DialogHeader>
+          {conversationGroup && <GroupConversation group={conversationGroup} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Group Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>編輯LINE群組</DialogTitle>
           </DialogHeader>
@@ -329,6 +610,74 @@ export default function GroupManagement() {
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="deliveryPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>發送規則</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="選擇發送規則" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {deliveryPolicyOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} - {option.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>時區</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="選擇時區" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {commonTimeZones.map((zone) => (
+                          <SelectItem key={zone.value} value={zone.value}>
+                            {zone.label}（{zone.value}）
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">發送到此群組的新訊息預設使用此時區</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="variables"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>範本變數預設值</FormLabel>
+                    <FormControl>
+                      <VariableValuesEditor value={field.value || {}} onChange={field.onChange} />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      範本中的 {"{名稱}"} 發送到此群組時自動帶入，例如發票號碼、匯款帳號
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button type="submit">更新</Button>
               </DialogFooter>
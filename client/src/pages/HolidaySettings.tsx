@@ -0,0 +1,305 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import moment from "moment-timezone";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, Upload } from "lucide-react";
+import { Holiday, insertHolidaySchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const formSchema = insertHolidaySchema.extend({
+  name: z.string().min(1, "名稱不能為空"),
+});
+
+const weekdayNames = ["日", "一", "二", "三", "四", "五", "六"];
+
+const getHolidayBadge = (holiday: Holiday) =>
+  holiday.isWorkday ? (
+    <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">補班</Badge>
+  ) : (
+    <Badge className="bg-red-100 text-red-800 hover:bg-red-200">放假</Badge>
+  );
+
+export default function HolidaySettings() {
+  const { toast } = useToast();
+  const currentYear = moment().tz("Asia/Taipei").year();
+  const [year, setYear] = useState(currentYear);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: holidays, isLoading } = useQuery<Holiday[]>({
+    queryKey: ["/api/holidays", year],
+    queryFn: () => apiRequest<Holiday[]>("GET", `/api/holidays?year=${year}`),
+  });
+
+  const addForm = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: "",
+      name: "",
+      isWorkday: false,
+    },
+  });
+
+  const handleAddHoliday = async (data: z.infer<typeof formSchema>) => {
+    try {
+      await apiRequest("POST", "/api/holidays", data);
+
+      toast({
+        title: "假日已新增",
+        description: `${data.date} ${data.name} 已加入行事曆。`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+
+      setIsAddDialogOpen(false);
+      addForm.reset();
+    } catch (error) {
+      toast({
+        title: "新增失敗",
+        description: "新增假日時發生錯誤，該日期可能已有設定。",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!confirm(`確定要刪除 ${holiday.date} ${holiday.name} 嗎？`)) return;
+
+    try {
+      await apiRequest("DELETE", `/api/holidays/${holiday.id}`);
+
+      toast({
+        title: "假日已刪除",
+        description: "已從行事曆中刪除。",
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+    } catch (error) {
+      toast({
+        title: "刪除失敗",
+        description: "刪除假日時發生錯誤，請再試一次。",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 讀取 .ics 或 .json 檔案並上傳到伺服器解析
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const format = file.name.toLowerCase().endsWith(".ics") ? "ics" : "json";
+
+    try {
+      const content = await file.text();
+      const result = await apiRequest<{ imported: number }>("POST", "/api/holidays/import", { format, content });
+
+      toast({
+        title: "匯入完成",
+        description: `已匯入 ${result.imported} 筆假日資料。`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+    } catch (error) {
+      toast({
+        title: "匯入失敗",
+        description: error instanceof Error ? error.message : "無法匯入行事曆檔案，請確認格式是否正確。",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - 1 + i);
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-blue-50 border-blue-200">
+        <CardContent className="p-4">
+          <div className="flex flex-col space-y-2">
+            <h3 className="text-lg font-medium text-blue-800">假日行事曆說明</h3>
+            <p className="text-sm text-blue-700">
+              週一至週五預設為工作日。在此設定國定假日（放假）與補班日，週期性排程可選擇遇到假日時略過，或移到前一個/下一個工作日發送。
+            </p>
+            <p className="text-sm text-blue-700">
+              可匯入 ICS 行事曆檔，或政府資料開放平臺的「中華民國政府行政機關辦公日曆表」JSON 檔。
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3">
+            <CardTitle className="text-xl font-semibold flex items-center">
+              <i className="fas fa-calendar-day mr-2 text-primary"></i> 假日行事曆
+            </CardTitle>
+            <div className="flex items-center space-x-2">
+              <Select value={String(year)} onValueChange={(value) => setYear(parseInt(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {yearOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} 年
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,.json,text/calendar,application/json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" /> 匯入
+              </Button>
+              <Button onClick={() => setIsAddDialogOpen(true)}>
+                <i className="fas fa-plus mr-2"></i> 新增假日
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-medium">日期</TableHead>
+                  <TableHead className="font-medium">名稱</TableHead>
+                  <TableHead className="font-medium">類型</TableHead>
+                  <TableHead className="text-center font-medium">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-10 text-gray-500">
+                      資料載入中...
+                    </TableCell>
+                  </TableRow>
+                ) : holidays && holidays.length > 0 ? (
+                  holidays.map((holiday) => (
+                    <TableRow key={holiday.id} className="border-b border-gray-200 hover:bg-gray-50">
+                      <TableCell className="font-medium">
+                        {holiday.date}（{weekdayNames[moment(holiday.date, "YYYY-MM-DD").day()]}）
+                      </TableCell>
+                      <TableCell>{holiday.name}</TableCell>
+                      <TableCell>{getHolidayBadge(holiday)}</TableCell>
+                      <TableCell className="text-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteHoliday(holiday)}
+                          title="刪除假日"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-10">
+                      <div className="flex flex-col items-center space-y-2">
+                        <p className="text-gray-500">{year} 年尚未設定任何假日</p>
+                        <p className="text-sm text-gray-400">
+                          點擊「匯入」上傳行事曆檔案，或「新增假日」逐筆新增
+                        </p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Add Holiday Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>新增假日</DialogTitle>
+          </DialogHeader>
+
+          <Form {...addForm}>
+            <form onSubmit={addForm.handleSubmit(handleAddHoliday)} className="space-y-4">
+              <FormField
+                control={addForm.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>日期</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={addForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>名稱</FormLabel>
+                    <FormControl>
+                      <Input placeholder="例如：中秋節" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={addForm.control}
+                name="isWorkday"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>類型</FormLabel>
+                    <Select
+                      value={field.value ? "workday" : "holiday"}
+                      onValueChange={(value) => field.onChange(value === "workday")}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="holiday">放假 - 當天不是工作日</SelectItem>
+                        <SelectItem value="workday">補班 - 週末但需上班</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit">儲存</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Group, Message } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Group, Message, Delivery } from "@shared/schema";
 import { format } from "date-fns";
 import { 
   Copy as CopyIcon, 
@@ -16,9 +19,75 @@ import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+type DeliveryOutcomesProps = {
+  message: Message;
+  groups?: Group[];
+  fallback: React.ReactNode;
+};
+
+// 依發送紀錄顯示每個群組最後一次嘗試的結果
+function DeliveryOutcomes({ message, groups, fallback }: DeliveryOutcomesProps) {
+  const { data: deliveries } = useQuery<Delivery[]>({
+    queryKey: ["/api/messages", message.id, "deliveries"],
+    queryFn: () => apiRequest<Delivery[]>("GET", `/api/messages/${message.id}/deliveries`),
+  });
+
+  if (!deliveries || deliveries.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  // 同一群組可能有多次重試，只保留最後一次
+  const latestByGroup = new Map<number, Delivery>();
+  for (const delivery of deliveries) {
+    latestByGroup.set(delivery.groupId, delivery);
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {Array.from(latestByGroup.values()).map((delivery) => {
+        const group = groups?.find(g => g.id === delivery.groupId);
+        const detail = delivery.success
+          ? `LINE Request ID: ${delivery.lineRequestId || "-"}`
+          : `HTTP ${delivery.httpStatus ?? "-"}: ${delivery.errorBody || "未知錯誤"}`;
+
+        return (
+          <div key={delivery.groupId} className="flex items-center gap-2 text-xs" title={detail}>
+            <span className="truncate max-w-[8rem]">{group ? group.name : `群組 #${delivery.groupId}`}</span>
+            {delivery.success ? (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-200">成功</Badge>
+            ) : (
+              <Badge className="bg-red-100 text-red-800 hover:bg-red-200">
+                失敗{delivery.httpStatus ? ` (${delivery.httpStatus})` : ""}
+              </Badge>
+            )}
+            {delivery.attempt > 1 && (
+              <span className="text-gray-400">第{delivery.attempt}次</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+type HistoryFilters = {
+  from: string;
+  to: string;
+  groupId: string;
+  status: string;
+};
+
+const ALL = "all";
+
 export default function MessageHistory() {
   const { toast } = useToast();
   const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<HistoryFilters>({
+    from: "",
+    to: "",
+    groupId: ALL,
+    status: ALL,
+  });
   const pageSize = 10;
   
   // Fetch groups
@@ -26,11 +95,25 @@ export default function MessageHistory() {
     queryKey: ["/api/groups"],
   });
 
-  // Fetch messages
+  // Fetch archived messages from history endpoint
   const { data: messages, isLoading } = useQuery<Message[]>({
-    queryKey: ["/api/messages"],
+    queryKey: ["/api/history", filters],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (filters.from) params.set("from", filters.from);
+      if (filters.to) params.set("to", filters.to);
+      if (filters.groupId !== ALL) params.set("groupId", filters.groupId);
+      if (filters.status !== ALL) params.set("status", filters.status);
+      const query = params.toString();
+      return apiRequest<Message[]>("GET", `/api/history${query ? `?${query}` : ""}`);
+    },
   });
 
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
   const handleDeleteMessage = async (id: number) => {
     try {
       await apiRequest("DELETE", `/api/messages/${id}`);
@@ -40,8 +123,8 @@ export default function MessageHistory() {
         description: "訊息已成功從系統中刪除。",
       });
       
-      // Invalidate messages cache to refresh the list
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      // Invalidate history cache to refresh the list
+      queryClient.invalidateQueries({ queryKey: ["/api/history"] });
     } catch (error) {
       toast({
         title: "刪除失敗",
@@ -53,7 +136,8 @@ export default function MessageHistory() {
 
   const handleDuplicateMessage = async (message: Message) => {
     try {
-      const { id, createdAt, status, ...messageData } = message;
+      // 去除發送與封存資訊，複製為新的排程
+      const { id, createdAt, status, sentAt, archived, lastSent, occurrenceCount, ...messageData } = message;
       
       // Create a new message with the same data
       await apiRequest("POST", "/api/messages", {
@@ -77,10 +161,8 @@ export default function MessageHistory() {
     }
   };
 
-  // Sort messages by scheduled time (newest first)
-  const sortedMessages = messages ? 
-    [...messages].sort((a, b) => new Date(b.scheduledTime).getTime() - new Date(a.scheduledTime).getTime()) : 
-    [];
+  // 後端已依發送時間排序（最新在前）
+  const sortedMessages = messages || [];
 
   // Paginate messages
   const paginatedMessages = sortedMessages.slice((page - 1) * pageSize, page * pageSize);
@@ -104,25 +186,17 @@ export default function MessageHistory() {
         return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">排程中</Badge>;
       case "sent":
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-200">已發送</Badge>;
+      case "partial":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">部分失敗</Badge>;
       case "failed":
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-200">失敗</Badge>;
+      case "expired":
+        return <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-200">已過期</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
   };
 
-  if (isLoading) {
-    return (
-      <Card>
-        <CardContent className="p-6">
-          <div className="h-80 flex items-center justify-center">
-            <p className="text-gray-500">資料載入中...</p>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <Card>
       <CardHeader>
@@ -131,11 +205,76 @@ export default function MessageHistory() {
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {/* 篩選條件 */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+          <div className="space-y-1">
+            <Label htmlFor="history-from">開始日期</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to">結束日期</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>群組</Label>
+            <Select value={filters.groupId} onValueChange={(value) => updateFilter("groupId", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="全部群組" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>全部群組</SelectItem>
+                {groups?.map((group) => (
+                  <SelectItem key={group.id} value={group.id.toString()}>
+                    {group.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>狀態</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="全部狀態" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>全部狀態</SelectItem>
+                <SelectItem value="sent">已發送</SelectItem>
+                <SelectItem value="partial">部分失敗</SelectItem>
+                <SelectItem value="failed">失敗</SelectItem>
+                <SelectItem value="expired">已過期</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                setFilters({ from: "", to: "", groupId: ALL, status: ALL });
+                setPage(1);
+              }}
+            >
+              清除篩選
+            </Button>
+          </div>
+        </div>
+
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow className="bg-gray-50">
-                <TableHead className="font-medium">日期時間</TableHead>
+                <TableHead className="font-medium">發送時間</TableHead>
                 <TableHead className="font-medium">訊息類型</TableHead>
                 <TableHead className="font-medium">發送對象</TableHead>
                 <TableHead className="font-medium">訊息內容</TableHead>
@@ -144,16 +283,28 @@ export default function MessageHistory() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedMessages.length > 0 ? (
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-10 text-gray-500">
+                    資料載入中...
+                  </TableCell>
+                </TableRow>
+              ) : paginatedMessages.length > 0 ? (
                 paginatedMessages.map((message) => (
                   <TableRow key={message.id} className="border-b border-gray-200 hover:bg-gray-50">
                     <TableCell className="py-3">
-                      {format(new Date(message.scheduledTime), "yyyy/MM/dd HH:mm:ss")}
+                      {format(new Date(message.sentAt || message.scheduledTime), "yyyy/MM/dd HH:mm:ss")}
                     </TableCell>
                     <TableCell>{message.title}</TableCell>
                     <TableCell>{getGroupNames(message.groupIds)}</TableCell>
                     <TableCell className="truncate max-w-xs">{message.content}</TableCell>
-                    <TableCell>{getStatusBadge(message.status)}</TableCell>
+                    <TableCell>
+                      <DeliveryOutcomes
+                        message={message}
+                        groups={groups}
+                        fallback={getStatusBadge(message.status)}
+                      />
+                    </TableCell>
                     <TableCell className="text-center">
                       <div className="flex justify-center space-x-2">
                         <Button
@@ -36,6 +36,8 @@ export default function ScheduleManagement() {
   // Count sent messages and scheduled messages
   const sentMessages = messages?.filter(message => message.status === "sent") || [];
   const scheduledMessages = messages?.filter(message => message.status === "scheduled") || [];
+  // 在群組中以 /pause 暫停的週期性訊息，輸入 /resume 前不會發送
+  const pausedMessages = messages?.filter(message => message.status === "paused") || [];
   
   // Handle clearing sent messages
   const handleClearSentMessages = async () => {
@@ -222,7 +224,8 @@ export default function ScheduleManagement() {
               <div>
                 <h3 className="font-medium text-blue-900">有訊息正在排隊等待發送</h3>
                 <p className="text-sm text-blue-700">
-                  共有 {scheduledMessages.length} 條訊息將在排程時間自動發送。系統將在發送後自動移除這些訊息。
+                  共有 {scheduledMessages.length} 條訊息將在排程時間自動發送。單次訊息發送後會移至「歷史紀錄」。
+                  {pausedMessages.length > 0 && `另有 ${pausedMessages.length} 條訊息已暫停。`}
                 </p>
               </div>
             </div>
@@ -7,18 +7,30 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Settings, insertSettingsSchema } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { DEFAULT_AMOUNT_TEMPLATE, formatAmountLine, isValidAmountTemplate } from "@shared/currency";
 
 const formSchema = insertSettingsSchema.extend({
   lineApiToken: z.string().min(1, "LINE Channel Access Token不能為空"),
   lineChannelSecret: z.string().min(1, "LINE Channel Secret不能為空"),
+  amountTemplate: z.string().refine(value => value === "" || isValidAmountTemplate(value), "金額格式必須包含 {amount}").optional(),
+  // 表單中以換行分隔，儲存時轉為陣列
+  adminUserIds: z.string().refine(
+    value => parseAdminUserIds(value).every(id => /^U[0-9a-f]{32}$/.test(id)),
+    "LINE 使用者 ID 以 U 開頭，共 33 個字元"
+  ).optional(),
 });
 
+function parseAdminUserIds(value: string | undefined): string[] {
+  return (value || "").split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+}
+
 export default function SettingsPage() {
   const { toast } = useToast();
 
@@ -35,6 +47,8 @@ export default function SettingsPage() {
       lineChannelSecret: "",
       isConnected: false,
       lastSynced: new Date().toISOString(),
+      amountTemplate: "",
+      adminUserIds: "",
     },
   });
 
@@ -46,6 +60,8 @@ export default function SettingsPage() {
         lineChannelSecret: settings.lineChannelSecret || "",
         isConnected: settings.isConnected || false,
         lastSynced: settings.lastSynced || new Date().toISOString(),
+        amountTemplate: settings.amountTemplate || "",
+        adminUserIds: (settings.adminUserIds || []).join("\n"),
       });
     }
   }, [settings, form]);
@@ -58,6 +74,8 @@ export default function SettingsPage() {
         lineChannelSecret: data.lineChannelSecret,
         isConnected: data.isConnected,
         lastSynced: new Date().toISOString(),
+        amountTemplate: data.amountTemplate || null,
+        adminUserIds: parseAdminUserIds(data.adminUserIds),
       });
       
       toast({
@@ -154,7 +172,8 @@ export default function SettingsPage() {
                         />
                       </FormControl>
                       <FormDescription>
-                        從LINE Developer Console取得的Channel Secret
+                        從LINE Developer Console取得的Channel Secret，也用於驗證 Webhook 的 X-Line-Signature；
+                        更換 Secret 期間可在環境變數 LINE_CHANNEL_SECRETS 列出舊的 Secret（以逗號分隔）
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -181,6 +200,51 @@ export default function SettingsPage() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="amountTemplate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>金額格式</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={DEFAULT_AMOUNT_TEMPLATE}
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        入帳、收款通知附加在內容後的金額文字，{"{symbol}"} 為幣別符號、{"{amount}"} 為金額、{"{code}"} 為幣別代碼；
+                        例如：{formatAmountLine(12000, "TWD", field.value || DEFAULT_AMOUNT_TEMPLATE)}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="adminUserIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>群組指令管理員</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="U1234567890abcdef1234567890abcdef"
+                          rows={3}
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        可在群組中使用 /pause、/resume 等管理指令的 LINE 使用者 ID，每行一個（也可用環境變數 LINE_ADMIN_USER_IDS 設定）；
+                        在與機器人的一對一聊天中輸入「查群組ID」即可取得自己的 ID。在群組中輸入 /help 查看所有指令。
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               
               <div className="flex justify-between items-center">
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useForm, UseFormReturn } from "react-hook-form";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -11,11 +11,17 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Pencil, Trash2, FileText } from "lucide-react";
-import { Template, insertTemplateSchema } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Trash2, FileText, History } from "lucide-react";
+import { Message, Template, insertTemplateSchema } from "@shared/schema";
+import { MessageFormat, isValidFlexJson } from "@shared/flex";
+import { TemplateVariable, TemplateVariableType, builtInVariables, syncTemplateVariables, userPlaceholders } from "@shared/templateRender";
+import FlexPreview, { flexPaymentExample } from "@/components/FlexPreview";
+import TemplateVersionHistory from "@/components/TemplateVersionHistory";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import moment from "moment-timezone";
 
 const templateTypes = [
   { value: "meeting", label: "會議提醒" },
@@ -31,13 +37,203 @@ const formSchema = insertTemplateSchema.extend({
   name: z.string().min(1, "模板名稱不能為空"),
   content: z.string().min(1, "訊息內容不能為空"),
   type: z.string().min(1, "模板類型不能為空"),
+  flexContent: z.string().optional(),
+}).refine(data => data.format !== "flex" || isValidFlexJson(data.flexContent), {
+  message: "Flex JSON 格式錯誤，請參考下方預覽的錯誤說明",
+  path: ["flexContent"],
 });
 
+type TemplateFormValues = z.infer<typeof formSchema>;
+
+const variableTypeOptions: { value: TemplateVariableType; label: string }[] = [
+  { value: "text", label: "文字" },
+  { value: "number", label: "數字" },
+  { value: "amount", label: "金額" },
+  { value: "date", label: "日期" },
+  { value: "month", label: "月份" },
+];
+
+// 內容（含 Flex JSON）中實際使用的變數，與已宣告的設定合併
+const templateVariablesOf = (data: Pick<TemplateFormValues, "content" | "format" | "flexContent" | "variables">) =>
+  syncTemplateVariables(
+    userPlaceholders(data.content, data.format === "flex" ? data.flexContent : null),
+    (data.variables || []) as TemplateVariable[]
+  );
+
+// 表單送出時文字格式不保留 Flex JSON，變數宣告只保留內容中有使用的
+const toTemplatePayload = (data: TemplateFormValues) => ({
+  ...data,
+  flexContent: data.format === "flex" ? data.flexContent : null,
+  variables: templateVariablesOf(data),
+});
+
+// 範本變數宣告：內容中每個 {{名稱}} 一列，設定填寫時的說明與型別
+function VariableFields({ form }: { form: UseFormReturn<TemplateFormValues> }) {
+  const variables = templateVariablesOf(form.watch());
+
+  const updateVariable = (name: string, changes: Partial<TemplateVariable>) => {
+    form.setValue(
+      "variables",
+      variables.map(v => (v.name === name ? { ...v, ...changes } : v))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>範本變數</FormLabel>
+      {variables.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          在內容中輸入 {"{{month}}"}、{"{{invoice_no}}"} 等變數，發送時再填入或使用群組預設值；
+          {Object.keys(builtInVariables).map(name => `{{${name}}}`).join("、")} 會自動帶入；
+          日期可以加上運算，例如 {'{{ now | add(1, "month") | format("M月") }}'}
+        </p>
+      ) : (
+        variables.map(variable => (
+          <div key={variable.name} className="flex items-center gap-2">
+            <code className="w-28 shrink-0 truncate text-xs">{`{{${variable.name}}}`}</code>
+            <Input
+              className="h-8"
+              placeholder="說明，例如：費用月份"
+              value={variable.label}
+              onChange={(e) => updateVariable(variable.name, { label: e.target.value })}
+            />
+            <Select
+              value={variable.type}
+              onValueChange={(value) => updateVariable(variable.name, { type: value as TemplateVariableType })}
+            >
+              <SelectTrigger className="h-8 w-24 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {variableTypeOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+// 訊息格式選擇與 Flex JSON 編輯器，新增與編輯表單共用
+function FlexFields({ form }: { form: UseFormReturn<TemplateFormValues> }) {
+  const format = form.watch("format");
+  const flexContent = form.watch("flexContent") || "";
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="format"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>訊息格式</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="選擇訊息格式" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="text">文字訊息</SelectItem>
+                <SelectItem value="flex">Flex 訊息（卡片）</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {format === "flex" && (
+        <>
+          <FormField
+            control={form.control}
+            name="flexContent"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Flex JSON</FormLabel>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => form.setValue("flexContent", flexPaymentExample, { shouldValidate: true })}
+                  >
+                    插入款項通知範例
+                  </Button>
+                </div>
+                <FormControl>
+                  <Textarea
+                    placeholder='{"type": "bubble", "body": { ... }}'
+                    className="min-h-40 font-mono text-xs"
+                    {...field}
+                    value={field.value || ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {flexContent && <FlexPreview json={flexContent} />}
+        </>
+      )}
+    </>
+  );
+}
+
+// 使用此範本的排程訊息：已連結的訊息會在發送時使用範本最新內容，複本不受修改影響
+function DependentMessages({ template }: { template: Template }) {
+  const { data: messages = [], isLoading } = useQuery<Message[]>({
+    queryKey: ["/api/templates", template.id, "messages"],
+    queryFn: () => apiRequest<Message[]>("GET", `/api/templates/${template.id}/messages`),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">載入中...</p>;
+  }
+  if (messages.length === 0) {
+    return <p className="text-sm text-gray-500">目前沒有排程訊息使用此模板</p>;
+  }
+
+  const linkedCount = messages.filter(m => m.templateLinked).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">
+        共 {messages.length} 則，其中 {linkedCount} 則已連結（修改模板後自動使用新內容）
+      </p>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {messages.map(message => (
+          <div key={message.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{message.title}</span>
+            <div className="flex shrink-0 items-center gap-2">
+              <span className="text-xs text-gray-500">
+                {moment(message.scheduledTime).tz(message.timezone).format("YYYY/MM/DD HH:mm")}
+              </span>
+              {message.templateLinked ? (
+                <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">已連結</Badge>
+              ) : (
+                <Badge variant="outline">複本 v{message.templateVersion ?? "-"}</Badge>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export default function TemplateManagement() {
   const { toast } = useToast();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isPreviewDialogOpen, setIsPreviewDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
   const [currentTemplate, setCurrentTemplate] = useState<Template | null>(null);
 
   // Fetch templates
@@ -46,28 +242,34 @@ export default function TemplateManagement() {
   });
 
   // Add template form
-  const addForm = useForm<z.infer<typeof formSchema>>({
+  const addForm = useForm<TemplateFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       content: "",
       type: "meeting",
+      format: "text",
+      flexContent: "",
+      variables: [],
     },
   });
 
   // Edit template form
-  const editForm = useForm<z.infer<typeof formSchema>>({
+  const editForm = useForm<TemplateFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       content: "",
       type: "meeting",
+      format: "text",
+      flexContent: "",
+      variables: [],
     },
   });
 
-  const handleAddTemplate = async (data: z.infer<typeof formSchema>) => {
+  const handleAddTemplate = async (data: TemplateFormValues) => {
     try {
-      await apiRequest("POST", "/api/templates", data);
+      await apiRequest("POST", "/api/templates", toTemplatePayload(data));
 
       toast({
         title: "模板已新增",
@@ -89,11 +291,11 @@ export default function TemplateManagement() {
     }
   };
 
-  const handleEditTemplate = async (data: z.infer<typeof formSchema>) => {
+  const handleEditTemplate = async (data: TemplateFormValues) => {
     if (!currentTemplate) return;
 
     try {
-      await apiRequest("PUT", `/api/templates/${currentTemplate.id}`, data);
+      await apiRequest("PUT", `/api/templates/${currentTemplate.id}`, toTemplatePayload(data));
 
       toast({
         title: "模板已更新",
@@ -116,7 +318,7 @@ export default function TemplateManagement() {
   };
 
   const handleDeleteTemplate = async (id: number) => {
-    if (!confirm("確定要刪除此模板嗎？")) return;
+    if (!confirm("確定要刪除此模板嗎？已連結此模板的訊息會改為保存目前內容的複本。")) return;
 
     try {
       await apiRequest("DELETE", `/api/templates/${id}`);
@@ -143,6 +345,9 @@ export default function TemplateManagement() {
       name: template.name,
       content: template.content,
       type: template.type,
+      format: (template.format || "text") as MessageFormat,
+      flexContent: template.flexContent || "",
+      variables: template.variables || [],
     });
     setIsEditDialogOpen(true);
   };
@@ -152,6 +357,11 @@ export default function TemplateManagement() {
     setIsPreviewDialogOpen(true);
   };
 
+  const openHistoryDialog = (template: Template) => {
+    setCurrentTemplate(template);
+    setIsHistoryDialogOpen(true);
+  };
+
   const getTemplateTypeName = (type: string) => {
     const templateType = templateTypes.find(t => t.value === type);
     return templateType ? templateType.label : type;
@@ -218,8 +428,16 @@ export default function TemplateManagement() {
                 {templates && templates.length > 0 ? (
                   templates.map((template) => (
                     <TableRow key={template.id} className="border-b border-gray-200 hover:bg-gray-50">
-                      <TableCell className="font-medium">{template.name}</TableCell>
-                      <TableCell>{getTemplateTypeName(template.type)}</TableCell>
+                      <TableCell className="font-medium">
+                        {template.name}
+                        <span className="ml-2 text-xs text-gray-400">v{template.version}</span>
+                      </TableCell>
+                      <TableCell>
+                        {getTemplateTypeName(template.type)}
+                        {template.format === "flex" && (
+                          <Badge className="ml-2 bg-green-100 text-green-800 hover:bg-green-200">Flex</Badge>
+                        )}
+                      </TableCell>
                       <TableCell className="truncate max-w-xs">{template.content}</TableCell>
                       <TableCell className="text-center">
                         <div className="flex justify-center space-x-2">
@@ -239,6 +457,14 @@ export default function TemplateManagement() {
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openHistoryDialog(template)}
+                            title="版本紀錄"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -271,7 +497,7 @@ export default function TemplateManagement() {
 
       {/* Add Template Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>新增訊息模板</DialogTitle>
           </DialogHeader>
@@ -320,12 +546,14 @@ export default function TemplateManagement() {
                 )}
               />
 
+              <FlexFields form={addForm} />
+
               <FormField
                 control={addForm.control}
                 name="content"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>訊息內容</FormLabel>
+                    <FormLabel>{addForm.watch("format") === "flex" ? "替代文字（通知與不支援 Flex 的裝置顯示）" : "訊息內容"}</FormLabel>
                     <FormControl>
                       <Textarea
                         placeholder="輸入訊息內容"
@@ -338,6 +566,8 @@ export default function TemplateManagement() {
                 )}
               />
 
+              <VariableFields form={addForm} />
+
               <DialogFooter>
                 <Button type="submit">儲存</Button>
               </DialogFooter>
@@ -348,7 +578,7 @@ export default function TemplateManagement() {
 
       {/* Edit Template Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>編輯訊息模板</DialogTitle>
           </DialogHeader>
@@ -397,12 +627,14 @@ export default function TemplateManagement() {
                 )}
               />
 
+              <FlexFields form={editForm} />
+
               <FormField
                 control={editForm.control}
                 name="content"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>訊息內容</FormLabel>
+                    <FormLabel>{editForm.watch("format") === "flex" ? "替代文字（通知與不支援 Flex 的裝置顯示）" : "訊息內容"}</FormLabel>
                     <FormControl>
                       <Textarea
                         placeholder="輸入訊息內容"
@@ -415,6 +647,8 @@ export default function TemplateManagement() {
                 )}
               />
 
+              <VariableFields form={editForm} />
+
               <DialogFooter>
                 <Button type="submit">更新</Button>
               </DialogFooter>
@@ -425,7 +659,7 @@ export default function TemplateManagement() {
 
       {/* Preview Template Dialog */}
       <Dialog open={isPreviewDialogOpen} onOpenChange={setIsPreviewDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>預覽訊息模板</DialogTitle>
           </DialogHeader>
@@ -444,9 +678,21 @@ export default function TemplateManagement() {
 
               <div className="space-y-1">
                 <h3 className="text-sm font-medium">LINE訊息內容</h3>
-                <div className="bg-[#F0F0F0] p-4 rounded-lg space-y-2">
-                  <p className="text-sm whitespace-pre-line">{currentTemplate.content}</p>
-                </div>
+                {currentTemplate.format === "flex" && currentTemplate.flexContent ? (
+                  <>
+                    <FlexPreview json={currentTemplate.flexContent} />
+                    <p className="text-xs text-gray-500">替代文字：{currentTemplate.content}</p>
+                  </>
+                ) : (
+                  <div className="bg-[#F0F0F0] p-4 rounded-lg space-y-2">
+                    <p className="text-sm whitespace-pre-line">{currentTemplate.content}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">使用此模板的排程訊息</h3>
+                <DependentMessages template={currentTemplate} />
               </div>
 
               <DialogFooter>
@@ -456,6 +702,23 @@ export default function TemplateManagement() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Template Version History Dialog */}
+      <Dialog open={isHistoryDialogOpen} onOpenChange={setIsHistoryDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>版本紀錄{currentTemplate ? `：${currentTemplate.name}` : ""}</DialogTitle>
+          </DialogHeader>
+
+          {currentTemplate && (
+            <TemplateVersionHistory template={currentTemplate} onRestored={setCurrentTemplate} />
+          )}
+
+          <DialogFooter>
+            <Button onClick={() => setIsHistoryDialogOpen(false)}>關閉</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
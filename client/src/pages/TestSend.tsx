@@ -93,7 +93,7 @@ export default function TestSend() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {groups.map((group) => (
+                          {groups.filter(group => group.status === "active").map((group) => (
                             <SelectItem key={group.id} value={group.id.toString()}>
                               {group.name}
                             </SelectItem>
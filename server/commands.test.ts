@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Group, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { builtinCommands, type CommandContext } from "./commands";
+
+function fakeStorage(messages: Message[]) {
+  const messageMap = new Map(messages.map(message => [message.id, { ...message }]));
+  return {
+    messages: messageMap,
+    async getMessages() {
+      return Array.from(messageMap.values());
+    },
+    async updateMessage(id: number, changes: Partial<Message>) {
+      const updated = { ...messageMap.get(id)!, ...changes } as Message;
+      messageMap.set(id, updated);
+      return updated;
+    },
+  };
+}
+
+const group = { id: 1, name: "群組1", timezone: "Asia/Taipei" } as Group;
+
+function periodic(id: number, groupIds: string[], status = "scheduled"): Message {
+  return { id, title: `訊息${id}`, type: "periodic", recurringActive: true, status, groupIds } as Message;
+}
+
+function run(name: string, storage: ReturnType<typeof fakeStorage>): Promise<string> {
+  const command = builtinCommands.find(c => c.name === name)!;
+  return command.run({
+    args: [],
+    event: { type: "message" },
+    chatId: "C1",
+    group,
+    isAdmin: true,
+    storage: storage as unknown as IStorage,
+    commands: builtinCommands,
+  } as CommandContext);
+}
+
+describe("/pause 與 /resume", () => {
+  it("只暫停發送到此群組的訊息，同時發送到其他群組的訊息不受影響", async () => {
+    const storage = fakeStorage([periodic(1, ["1"]), periodic(2, ["1", "2"]), periodic(3, ["2"])]);
+
+    const reply = await run("pause", storage);
+
+    assert.deepEqual(
+      Array.from(storage.messages.values()).map(m => m.status),
+      ["paused", "scheduled", "scheduled"]
+    );
+    assert.match(reply, /已暫停 1 則/);
+    assert.match(reply, /1 則同時發送到其他群組的訊息未暫停/);
+  });
+
+  it("只恢復此群組自己的訊息", async () => {
+    const storage = fakeStorage([periodic(1, ["1"], "paused"), periodic(2, ["2"], "paused"), periodic(3, ["1", "2"], "paused")]);
+
+    const reply = await run("resume", storage);
+
+    assert.deepEqual(
+      Array.from(storage.messages.values()).map(m => m.status),
+      ["scheduled", "paused", "paused"]
+    );
+    assert.match(reply, /已恢復 1 則/);
+  });
+
+  it("不恢復單次訊息，也不變更 lastSent", async () => {
+    const lastSent = "2026-03-01T06:00:00.000Z";
+    const single = { id: 2, title: "訊息2", type: "single", status: "paused", groupIds: ["1"] } as Message;
+    const storage = fakeStorage([{ ...periodic(1, ["1"], "paused"), lastSent }, single]);
+
+    const reply = await run("resume", storage);
+
+    assert.equal(storage.messages.get(1)!.status, "scheduled");
+    assert.equal(storage.messages.get(1)!.lastSent, lastSent);
+    assert.equal(storage.messages.get(2)!.status, "paused");
+    assert.match(reply, /已恢復 1 則/);
+  });
+});
@@ -0,0 +1,250 @@
+import moment from "moment-timezone";
+import type { Group, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { LineClient } from "./line";
+import type { LineWebhookEvent } from "./lineEvents";
+import { chatIdOf } from "./lineEvents";
+import { HolidayCalendar } from "./holidays";
+import { previewOccurrences, zoneOf } from "./occurrences";
+
+// 群組聊天指令：以 / 開頭（例如 /next），或訊息中包含關鍵字（例如「查群組ID」）
+// 指令回傳的文字以 reply API 回覆到發出指令的聊天室
+
+export type CommandContext = {
+  args: string[];
+  event: LineWebhookEvent;
+  chatId?: string; // 群組或聊天室 ID，一對一聊天時為空
+  userId?: string;
+  group?: Group; // chatId 對應的已登記群組
+  isAdmin: boolean;
+  storage: IStorage;
+  commands: ChatCommand[];
+};
+
+export type ChatCommand = {
+  name: string; // 不含斜線，例如 next
+  description: string;
+  keywords?: string[]; // 訊息包含這些文字時也觸發此指令
+  adminOnly?: boolean; // 只有管理員名單中的使用者可以執行
+  requiresGroup?: boolean; // 只能在已登記的群組中執行
+  run(context: CommandContext): Promise<string>;
+};
+
+// /next 最多列出幾則訊息
+const NEXT_LIMIT = 5;
+
+// 可執行管理指令的 LINE 使用者 ID：環境變數 LINE_ADMIN_USER_IDS（以逗號分隔）與資料庫設定
+export async function resolveAdminUserIds(storage: IStorage): Promise<string[]> {
+  const settings = await storage.getSettings();
+  const ids = [
+    ...(process.env.LINE_ADMIN_USER_IDS || "").split(","),
+    ...(settings?.adminUserIds || []),
+  ];
+  return Array.from(new Set(ids.map(id => id.trim()).filter(Boolean)));
+}
+
+// 以此群組為發送對象、仍在排程中的訊息
+function messagesForGroup(messages: Message[], group: Group, status: string): Message[] {
+  return messages.filter(message =>
+    message.status === status && (message.groupIds || []).includes(group.id.toString())
+  );
+}
+
+function isRecurring(message: Message): boolean {
+  return message.type === "periodic" && !!message.recurringActive;
+}
+
+// 訊息的 status 是整則訊息共用的，同時發送到其他群組的訊息不能只在一個群組中暫停或恢復
+function isSharedMessage(message: Message): boolean {
+  return (message.groupIds || []).length > 1;
+}
+
+// 訊息下一次的發送時間；單次訊息為排程時間，週期性訊息依規則（含假日）展開
+function nextOccurrenceOf(message: Message, calendar: HolidayCalendar, now: moment.Moment): moment.Moment | null {
+  if (!isRecurring(message)) {
+    return moment(message.scheduledTime).tz(zoneOf(message));
+  }
+  const [next] = previewOccurrences(message, 1, message.holidayRule === "none" ? undefined : calendar, now.clone().tz(zoneOf(message)));
+  return next || null;
+}
+
+const idCommand: ChatCommand = {
+  name: "id",
+  description: "查詢此群組（或聊天室、使用者）的 ID",
+  keywords: ["查群組ID"],
+  async run({ event, chatId, userId }) {
+    const sourceName = event.source?.type === "group" ? "群組" : event.source?.type === "room" ? "聊天室" : "用戶";
+    const id = chatId || userId;
+    if (!id) return "無法取得 ID";
+    return `📋 此${sourceName}的ID是: ${id}\n\n此ID可用於發送系統訊息。`;
+  },
+};
+
+const helpCommand: ChatCommand = {
+  name: "help",
+  description: "列出可以使用的指令",
+  async run({ commands, isAdmin }) {
+    const lines = commands
+      .filter(command => !command.adminOnly || isAdmin)
+      .map(command => `/${command.name} - ${command.description}${command.adminOnly ? "（管理員）" : ""}`);
+    return `可以使用的指令：\n${lines.join("\n")}`;
+  },
+};
+
+const nextCommand: ChatCommand = {
+  name: "next",
+  description: `列出接下來要發送到此群組的訊息（最多 ${NEXT_LIMIT} 則）`,
+  requiresGroup: true,
+  async run({ group, storage }) {
+    const now = moment();
+    const calendar = new HolidayCalendar(await storage.getHolidays());
+    const upcoming = messagesForGroup(await storage.getMessages(), group!, "scheduled")
+      .map(message => ({ message, at: nextOccurrenceOf(message, calendar, now) }))
+      .filter((entry): entry is { message: Message; at: moment.Moment } => entry.at !== null)
+      .sort((a, b) => a.at.valueOf() - b.at.valueOf())
+      .slice(0, NEXT_LIMIT);
+
+    if (upcoming.length === 0) {
+      return "目前沒有排程發送到此群組的訊息";
+    }
+    const lines = upcoming.map(({ message, at }) =>
+      `${at.clone().tz(group!.timezone).format("MM/DD HH:mm")} ${message.title}${isRecurring(message) ? "（週期）" : ""}`
+    );
+    return `接下來要發送的訊息：\n${lines.join("\n")}`;
+  },
+};
+
+const pauseCommand: ChatCommand = {
+  name: "pause",
+  description: "暫停只發送到此群組的週期性訊息",
+  adminOnly: true,
+  requiresGroup: true,
+  async run({ group, storage }) {
+    const recurring = messagesForGroup(await storage.getMessages(), group!, "scheduled").filter(isRecurring);
+    if (recurring.length === 0) {
+      return "此群組沒有進行中的週期性訊息";
+    }
+    const targets = recurring.filter(message => !isSharedMessage(message));
+    const shared = recurring.length - targets.length;
+    const sharedNote = shared > 0 ? `${shared} 則同時發送到其他群組的訊息未暫停，請在排程管理中調整。` : "";
+    if (targets.length === 0) {
+      return sharedNote;
+    }
+    for (const message of targets) {
+      await storage.updateMessage(message.id, { status: "paused" });
+    }
+    return `已暫停 ${targets.length} 則週期性訊息。輸入 /resume 恢復發送。${sharedNote}`;
+  },
+};
+
+const resumeCommand: ChatCommand = {
+  name: "resume",
+  description: "恢復發送此群組已暫停的週期性訊息",
+  adminOnly: true,
+  requiresGroup: true,
+  async run({ group, storage }) {
+    // 只恢復 /pause 暫停的週期性訊息；單次訊息在排程管理中暫停，不由此指令恢復
+    const targets = messagesForGroup(await storage.getMessages(), group!, "paused")
+      .filter(message => isRecurring(message) && !isSharedMessage(message));
+    if (targets.length === 0) {
+      return "此群組沒有已暫停的週期性訊息";
+    }
+    // lastSent 維持不變，暫停期間錯過的發送依訊息的 missedRunPolicy 處理
+    for (const message of targets) {
+      await storage.updateMessage(message.id, { status: "scheduled" });
+    }
+    return `已恢復 ${targets.length} 則週期性訊息。`;
+  },
+};
+
+export const builtinCommands: ChatCommand[] = [helpCommand, nextCommand, pauseCommand, resumeCommand, idCommand];
+
+// 解析訊息文字並執行對應的指令，新的指令以 register 加入
+export class CommandRouter {
+  private commands: ChatCommand[] = [];
+
+  constructor(private storage: IStorage, private lineClient: LineClient, commands: ChatCommand[] = builtinCommands) {
+    commands.forEach(command => this.register(command));
+  }
+
+  register(command: ChatCommand) {
+    if (this.commands.some(existing => existing.name === command.name)) {
+      throw new Error(`指令 /${command.name} 已存在`);
+    }
+    this.commands.push(command);
+  }
+
+  list(): ChatCommand[] {
+    return [...this.commands];
+  }
+
+  // 找出文字對應的指令與參數，不是指令時回傳 null
+  match(text: string): { command: ChatCommand; args: string[] } | null {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("/")) {
+      const [name, ...args] = trimmed.slice(1).split(/\s+/);
+      const command = this.commands.find(c => c.name === name.toLowerCase());
+      return command ? { command, args } : null;
+    }
+    const command = this.commands.find(c => c.keywords?.some(keyword => trimmed.includes(keyword)));
+    return command ? { command, args: [] } : null;
+  }
+
+  // 處理文字訊息事件，是指令時回覆結果並回傳 true
+  async handle(event: LineWebhookEvent): Promise<boolean> {
+    if (event.type !== "message" || event.message?.type !== "text" || !event.message.text) return false;
+
+    const matched = this.match(event.message.text);
+    if (!matched) return false;
+
+    const { command, args } = matched;
+    const chatId = chatIdOf(event.source);
+    const userId = event.source?.userId;
+    console.log(`收到指令 /${command.name}，來源: ${chatId || userId || "unknown"}，使用者: ${userId || "unknown"}`);
+
+    let replyText: string;
+    try {
+      const isAdmin = !!userId && (await resolveAdminUserIds(this.storage)).includes(userId);
+      const group = chatId ? await this.storage.getGroupByLineId(chatId) : undefined;
+
+      if (command.adminOnly && !isAdmin) {
+        replyText = `/${command.name} 只有管理員可以使用`;
+      } else if (command.requiresGroup && !group) {
+        replyText = chatId
+          ? "此群組尚未登記到系統，請先到群組管理核准此群組"
+          : `/${command.name} 只能在群組中使用`;
+      } else {
+        replyText = await command.run({
+          args,
+          event,
+          chatId,
+          userId,
+          group,
+          isAdmin,
+          storage: this.storage,
+          commands: this.list(),
+        });
+      }
+    } catch (err) {
+      console.error(`執行指令 /${command.name} 時出錯:`, err);
+      replyText = `執行 /${command.name} 時發生錯誤，請稍後再試`;
+    }
+
+    await this.reply(event, replyText);
+    return true;
+  }
+
+  // 優先使用 reply API，沒有 replyToken 時改用 push API 發送到來源
+  private async reply(event: LineWebhookEvent, text: string) {
+    const to = chatIdOf(event.source) || event.source?.userId;
+    try {
+      if (event.replyToken) {
+        await this.lineClient.replyMessage(event.replyToken, text);
+      } else if (to) {
+        await this.lineClient.pushMessage(to, text);
+      }
+    } catch (err) {
+      console.error("回覆指令結果時出錯:", err);
+    }
+  }
+}
@@ -0,0 +1,333 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { Group, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { LineApiError, type DeliveryContext, type LineClient, type LineMessage } from "./line";
+import { DispatchError, EMPTY_MESSAGE_CONTENT, MessageDispatcher, UNREACHABLE_AFTER_FAILURES } from "./dispatcher";
+
+// 假的 LINE 推播：記錄每次推播，failures 指定的群組 ID 依序拋出錯誤
+class FakeLineClient implements LineClient {
+  pushes: { to: string; messages: LineMessage[]; delivery?: DeliveryContext }[] = [];
+  failures = new Map<string, Error>();
+  configured = true;
+
+  async isConfigured() {
+    return this.configured;
+  }
+
+  async pushMessage(to: string, content: string | LineMessage | LineMessage[], delivery?: DeliveryContext) {
+    const messages: LineMessage[] = typeof content === "string"
+      ? [{ type: "text", text: content }]
+      : Array.isArray(content) ? content : [content];
+    const failure = this.failures.get(to);
+    if (failure) throw failure;
+    this.pushes.push({ to, messages, delivery });
+    return { sentMessages: messages.map((_, i) => ({ id: String(i) })) };
+  }
+
+  async replyMessage() {}
+  async getGroupSummary() {
+    return null;
+  }
+  async getGroupMemberCount() {
+    return null;
+  }
+  async getMessageContent() {
+    return null;
+  }
+}
+
+// 只實作發送流程用到的儲存操作
+function fakeStorage(groups: Group[], messages: Message[] = []) {
+  const groupMap = new Map(groups.map(group => [group.id, { ...group }]));
+  const messageMap = new Map(messages.map(message => [message.id, { ...message }]));
+  const storage = {
+    groups: groupMap,
+    messages: messageMap,
+    async getGroup(id: number) {
+      return groupMap.get(id);
+    },
+    async getSettings() {
+      return undefined;
+    },
+    async getTemplate() {
+      return undefined;
+    },
+    async getHolidays() {
+      return [];
+    },
+    async updateMessage(id: number, changes: Partial<Message>) {
+      const updated = { ...messageMap.get(id)!, ...changes } as Message;
+      messageMap.set(id, updated);
+      return updated;
+    },
+    async recordGroupNotMember(id: number, threshold: number) {
+      const group = groupMap.get(id)!;
+      group.notMemberFailures += 1;
+      if (group.notMemberFailures >= threshold) group.unreachable = true;
+      return group;
+    },
+    async resetGroupFailures(id: number) {
+      const group = groupMap.get(id)!;
+      group.notMemberFailures = 0;
+      return group;
+    },
+  };
+  return storage;
+}
+
+function group(id: number, overrides: Partial<Group> = {}): Group {
+  return {
+    id,
+    name: `群組${id}`,
+    lineId: `C${String(id).padStart(32, "0")}`,
+    deliveryPolicy: "strict",
+    timezone: "Asia/Taipei",
+    variables: {},
+    status: "active",
+    memberCount: null,
+    joinedAt: null,
+    leftAt: null,
+    unreachable: false,
+    notMemberFailures: 0,
+    unreachableAt: null,
+    ...overrides,
+  };
+}
+
+function message(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 1,
+    title: "會議提醒",
+    type: "single",
+    content: "明天下午兩點開會",
+    format: "text",
+    status: "scheduled",
+    scheduledTime: "2026-03-01T06:00:00.000Z",
+    groupIds: ["1"],
+    archived: false,
+    variables: {},
+    attachments: [],
+    timezone: "Asia/Taipei",
+    ...overrides,
+  } as Message;
+}
+
+const notMember = () => new LineApiError("LINE API Error (400): LINE Bot 不在此群組內", "not_member", 400);
+
+describe("MessageDispatcher.sendToGroup", () => {
+  let line: FakeLineClient;
+
+  beforeEach(() => {
+    line = new FakeLineClient();
+  });
+
+  it("strict 群組發送失敗時回傳失敗與錯誤類型", async () => {
+    const target = group(1);
+    line.failures.set(target.lineId, new LineApiError("LINE API Error (429): 本月訊息額度已用完", "quota", 429));
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+
+    const result = await dispatcher.sendToGroup(target, [{ type: "text", text: "hi" }], 1);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorKind, "quota");
+    assert.match(result.error!, /額度/);
+    assert.equal(result.tolerated, undefined);
+  });
+
+  it("best_effort 群組發送失敗時視為成功並保留錯誤", async () => {
+    const target = group(1, { deliveryPolicy: "best_effort" });
+    line.failures.set(target.lineId, new Error("network down"));
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+
+    const result = await dispatcher.sendToGroup(target, [{ type: "text", text: "hi" }]);
+
+    assert.deepEqual(
+      { success: result.success, tolerated: result.tolerated, error: result.error },
+      { success: true, tolerated: true, error: "Error: network down" }
+    );
+  });
+
+  it("disabled 群組不推播", async () => {
+    const target = group(1, { deliveryPolicy: "disabled" });
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+
+    const result = await dispatcher.sendToGroup(target, [{ type: "text", text: "hi" }]);
+
+    assert.deepEqual(result, { groupId: 1, groupName: "群組1", success: false, skipped: true });
+    assert.equal(line.pushes.length, 0);
+  });
+
+  it("已標記無法送達的群組不推播", async () => {
+    const target = group(1, { unreachable: true });
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+
+    const result = await dispatcher.sendToGroup(target, [{ type: "text", text: "hi" }]);
+
+    assert.equal(result.skipped, true);
+    assert.equal(result.errorKind, "not_member");
+    assert.equal(line.pushes.length, 0);
+  });
+
+  it(`連續 ${UNREACHABLE_AFTER_FAILURES} 次 Bot 不在群組內時標記為無法送達，成功時清除次數`, async () => {
+    const storage = fakeStorage([group(1)]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line);
+    const lineId = storage.groups.get(1)!.lineId;
+
+    line.failures.set(lineId, notMember());
+    for (let i = 0; i < UNREACHABLE_AFTER_FAILURES - 1; i++) {
+      await dispatcher.sendToGroup({ ...storage.groups.get(1)! }, [{ type: "text", text: "hi" }]);
+    }
+    assert.equal(storage.groups.get(1)!.unreachable, false);
+
+    line.failures.delete(lineId);
+    await dispatcher.sendToGroup({ ...storage.groups.get(1)! }, [{ type: "text", text: "hi" }]);
+    assert.equal(storage.groups.get(1)!.notMemberFailures, 0);
+
+    line.failures.set(lineId, notMember());
+    for (let i = 0; i < UNREACHABLE_AFTER_FAILURES; i++) {
+      await dispatcher.sendToGroup({ ...storage.groups.get(1)! }, [{ type: "text", text: "hi" }]);
+    }
+    assert.equal(storage.groups.get(1)!.unreachable, true);
+  });
+
+  it("超過 5 個訊息物件時分成多次推播", async () => {
+    const target = group(1);
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+    const lineMessages: LineMessage[] = Array.from({ length: 7 }, (_, i) => ({ type: "text", text: `第${i + 1}則` }));
+
+    const result = await dispatcher.sendToGroup(target, lineMessages, 3);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(line.pushes.map(push => push.messages.length), [5, 2]);
+    assert.deepEqual(line.pushes[0].delivery, { messageId: 3, groupId: 1 });
+  });
+
+  it("沒有可推播的內容時回傳失敗", async () => {
+    const target = group(1, { deliveryPolicy: "best_effort" });
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+
+    const result = await dispatcher.sendToGroup(target, []);
+
+    assert.equal(result.success, false);
+    assert.equal(result.tolerated, undefined);
+    assert.equal(result.error, EMPTY_MESSAGE_CONTENT);
+    assert.equal(line.pushes.length, 0);
+  });
+
+  it("分次推播中途失敗時註明已送出的次數", async () => {
+    const target = group(1);
+    let calls = 0;
+    line.pushMessage = async function (to, content) {
+      if (++calls === 2) throw new Error("timeout");
+      return FakeLineClient.prototype.pushMessage.call(this, to, content);
+    };
+    const dispatcher = new MessageDispatcher(fakeStorage([target]) as unknown as IStorage, line);
+    const lineMessages: LineMessage[] = Array.from({ length: 6 }, (_, i) => ({ type: "text", text: `${i}` }));
+
+    const result = await dispatcher.sendToGroup(target, lineMessages);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /已送出 1\/2 次推播/);
+  });
+});
+
+describe("MessageDispatcher.dispatch", () => {
+  it("逐一發送到各群組並回傳每個群組的結果", async () => {
+    const groups = [
+      group(1),
+      group(2, { deliveryPolicy: "best_effort" }),
+      group(3, { deliveryPolicy: "disabled" }),
+      group(4, { unreachable: true }),
+    ];
+    const line = new FakeLineClient();
+    line.failures.set(groups[1].lineId, notMember());
+    const storage = fakeStorage(groups, [message({ groupIds: ["1", "2", "3", "4"] })]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line);
+
+    const summary = await dispatcher.dispatch(storage.messages.get(1)!);
+
+    assert.deepEqual(
+      summary.results.map(r => ({ groupId: r.groupId, success: r.success, tolerated: !!r.tolerated, skipped: !!r.skipped })),
+      [
+        { groupId: 1, success: true, tolerated: false, skipped: false },
+        { groupId: 2, success: true, tolerated: true, skipped: false },
+        { groupId: 3, success: false, tolerated: false, skipped: true },
+        { groupId: 4, success: false, tolerated: false, skipped: true },
+      ]
+    );
+    assert.equal(summary.status, "sent");
+    assert.equal(summary.allSuccess, true);
+    assert.deepEqual(line.pushes.map(push => push.to), [groups[0].lineId]);
+    assert.equal(storage.messages.get(1)!.archived, true);
+  });
+
+  it("部分群組失敗時狀態為 partial", async () => {
+    const groups = [group(1), group(2)];
+    const line = new FakeLineClient();
+    line.failures.set(groups[1].lineId, new LineApiError("LINE API Error (401)", "auth", 401));
+    const storage = fakeStorage(groups, [message({ groupIds: ["1", "2"] })]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line);
+
+    const summary = await dispatcher.dispatch(storage.messages.get(1)!);
+
+    assert.equal(summary.status, "partial");
+    assert.equal(summary.results[1].errorKind, "auth");
+    assert.equal(storage.messages.get(1)!.status, "partial");
+  });
+
+  it("沒有可發送的群組時拋出 DispatchError", async () => {
+    const storage = fakeStorage([group(1, { status: "inactive" })], [message()]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, new FakeLineClient());
+
+    await assert.rejects(dispatcher.dispatch(storage.messages.get(1)!), DispatchError);
+    assert.equal(storage.messages.get(1)!.status, "failed");
+  });
+
+  it("內容只有空白且沒有附件時不推播，訊息標記為失敗", async () => {
+    const line = new FakeLineClient();
+    const storage = fakeStorage([group(1)], [message({ content: "  \n " })]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line);
+
+    const summary = await dispatcher.dispatch(storage.messages.get(1)!);
+
+    assert.equal(summary.status, "failed");
+    assert.equal(summary.results[0].error, `DispatchError: ${EMPTY_MESSAGE_CONTENT}`);
+    assert.equal(line.pushes.length, 0);
+    assert.equal(storage.messages.get(1)!.status, "failed");
+  });
+
+  it("週期性訊息的 lastSent 記錄發送的時間點，補發較早的時間點時不倒退", async () => {
+    const storage = fakeStorage([group(1)], [message({
+      type: "periodic",
+      recurringActive: true,
+      recurringType: "daily",
+      lastSent: "2026-03-02T06:00:00.000Z",
+    })]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, new FakeLineClient());
+
+    await dispatcher.dispatch(storage.messages.get(1)!, "2026-03-03T06:00:00.000Z");
+    assert.equal(storage.messages.get(1)!.lastSent, "2026-03-03T06:00:00.000Z");
+
+    await dispatcher.dispatch(storage.messages.get(1)!, "2026-03-01T06:00:00.000Z");
+    assert.equal(storage.messages.get(1)!.lastSent, "2026-03-03T06:00:00.000Z");
+    assert.equal(storage.messages.get(1)!.status, "scheduled");
+  });
+
+  it("長文字拆成多則文字訊息並附加金額", async () => {
+    const line = new FakeLineClient();
+    const storage = fakeStorage([group(1)], [message({
+      content: "甲".repeat(6000),
+      currency: "TWD",
+      amount: "12000",
+    })]);
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line);
+
+    await dispatcher.dispatch(storage.messages.get(1)!);
+
+    const texts = line.pushes[0].messages.map(m => (m as { text: string }).text);
+    assert.equal(texts.length, 2);
+    assert.ok(texts.every(text => text.length <= 5000));
+    assert.match(texts[1], /NT\$12,000$/);
+  });
+});
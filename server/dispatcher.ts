@@ -0,0 +1,359 @@
+import { Group, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { LineApiError, type LineClient, type LineErrorKind, type LineMessage } from "./line";
+import { FlexValidationError, flexAltText, parseFlexContent } from "@shared/flex";
+import { MAX_MESSAGE_OBJECTS, MessageAttachment } from "@shared/attachments";
+import { breakSentences, splitText } from "@shared/textSplit";
+import { RenderContext, escapeJsonString, mergeVariableValues, renderTemplate } from "@shared/templateRender";
+import { DEFAULT_AMOUNT_TEMPLATE, formatAmountLine, formatMoney } from "@shared/currency";
+import { isScheduleExhausted, zoneOf } from "./occurrences";
+import { HolidayCalendar } from "./holidays";
+import moment from "moment-timezone";
+
+// 單一群組的發送結果
+export type DispatchResult = {
+  groupId: number;
+  groupName: string;
+  success: boolean;
+  tolerated?: boolean; // 發送失敗但依群組規則（best_effort）視為成功
+  skipped?: boolean; // 群組規則為 disabled 或已標記為無法送達，未發送
+  result?: unknown;
+  error?: string;
+  errorKind?: LineErrorKind; // LINE API 回傳的錯誤類型
+};
+
+// 整則訊息的發送結果
+export type DispatchSummary = {
+  status: "sent" | "partial" | "failed";
+  allSuccess: boolean;
+  results: DispatchResult[];
+  message?: Message;
+};
+
+// 發送前置條件不成立（無有效群組、未設定Token），status 對應 HTTP 狀態碼
+// retryable 表示條件可能稍後恢復（例如補上Token），排程佇列會延後重試
+export class DispatchError extends Error {
+  constructor(message: string, public status: number = 400, public retryable: boolean = false) {
+    super(message);
+    this.name = "DispatchError";
+  }
+}
+
+// 連續幾次「Bot 不在群組內」的推播失敗後將群組標記為無法送達
+export const UNREACHABLE_AFTER_FAILURES = 3;
+
+// 格式化訊息內容：內容中還沒有金額時依 amountTemplate 附加幣別金額，並在句號後斷行
+export function formatMessageContent(
+  message: Pick<Message, "content" | "currency" | "amount">,
+  amountTemplate: string = DEFAULT_AMOUNT_TEMPLATE
+): string {
+  let finalContent = message.content;
+
+  if (message.currency && message.amount) {
+    const money = formatMoney(message.amount, message.currency);
+    if (!finalContent.includes(money)) {
+      finalContent += `\n\n${formatAmountLine(message.amount, message.currency, amountTemplate)}`;
+    }
+  }
+
+  return breakSentences(finalContent);
+}
+
+// 依訊息格式建立推播內容：文字訊息回傳格式化後的字串，flex 以格式化後的文字作為替代文字
+export function buildLineMessage(
+  message: Pick<Message, "content" | "currency" | "amount" | "format" | "flexContent">,
+  amountTemplate?: string
+): string | LineMessage {
+  const text = formatMessageContent(message, amountTemplate);
+  if (message.format !== "flex") {
+    return text;
+  }
+
+  if (!message.flexContent) {
+    throw new DispatchError("Flex 訊息缺少 flexContent");
+  }
+  try {
+    return { type: "flex", altText: flexAltText(text), contents: parseFlexContent(message.flexContent) };
+  } catch (err) {
+    if (err instanceof FlexValidationError) {
+      throw new DispatchError(err.message);
+    }
+    throw err;
+  }
+}
+
+// 發送時的運算式環境：now 為本次的發送時間點（訊息時區），occurrence_number 為第幾次發送
+export function renderContextOf(
+  message: Pick<Message, "occurrenceCount" | "timezone">,
+  occurrenceAt?: string | moment.Moment | null
+): RenderContext {
+  return {
+    now: moment(occurrenceAt || undefined).tz(zoneOf(message)),
+    occurrenceNumber: (message.occurrenceCount ?? 0) + 1,
+  };
+}
+
+// 帶入範本變數：群組預設值、訊息填寫的值與內建的 group.name，並計算 {{ now | ... }} 等運算式
+// 缺少值時拋出 TemplateRenderError
+export function renderForGroup<T extends Pick<Message, "content" | "flexContent" | "variables">>(
+  message: T,
+  group: Group,
+  context: RenderContext = {}
+): T {
+  const values = { ...mergeVariableValues(group.variables, message.variables), "group.name": group.name };
+  return {
+    ...message,
+    content: renderTemplate(message.content, values, undefined, context),
+    flexContent: message.flexContent ? renderTemplate(message.flexContent, values, escapeJsonString, context) : message.flexContent,
+  };
+}
+
+// 文字內容超過 LINE 字數上限時拆成多則文字訊息
+export function textMessages(text: string): LineMessage[] {
+  return splitText(text).map(chunk => ({ type: "text", text: chunk }));
+}
+
+// 沒有任何可推播的內容（文字為空且沒有附件）
+export const EMPTY_MESSAGE_CONTENT = "訊息內容是空的，沒有可發送的內容";
+
+// 主要內容（長文字會拆成多則）加上附件（圖片、貼圖），依序發送
+export function buildLineMessages(
+  message: Pick<Message, "content" | "currency" | "amount" | "format" | "flexContent"> & { attachments?: MessageAttachment[] | null },
+  amountTemplate?: string
+): LineMessage[] {
+  const main = buildLineMessage(message, amountTemplate);
+  const lineMessages = [
+    ...(typeof main === "string" ? textMessages(main) : [main]),
+    ...(message.attachments || []),
+  ];
+  if (lineMessages.length === 0) {
+    throw new DispatchError(EMPTY_MESSAGE_CONTENT);
+  }
+  return lineMessages;
+}
+
+// 每次推播最多 5 個訊息物件，超過時分成多次推播
+export function toPushBatches(lineMessages: LineMessage[]): LineMessage[][] {
+  const batches: LineMessage[][] = [];
+  for (let i = 0; i < lineMessages.length; i += MAX_MESSAGE_OBJECTS) {
+    batches.push(lineMessages.slice(i, i + MAX_MESSAGE_OBJECTS));
+  }
+  return batches;
+}
+
+// 訊息發送流程：解析群組 → 格式化內容 → 逐一推播 → 更新訊息狀態
+// 排程、手動發送與測試發送都走這條路徑，確保行為一致
+export class MessageDispatcher {
+  constructor(private storage: IStorage, private lineClient: LineClient) {}
+
+  async resolveGroups(groupIds: string[]): Promise<Group[]> {
+    const groups = await Promise.all(
+      groupIds.map(groupId => this.storage.getGroup(parseInt(groupId)))
+    );
+    return groups.filter(g => g !== undefined) as Group[];
+  }
+
+  // 連結範本的訊息以範本目前的內容發送；範本已不存在時使用訊息保存的內容
+  async withLinkedTemplate(message: Message): Promise<Message> {
+    if (!message.templateLinked || !message.templateId) return message;
+
+    const template = await this.storage.getTemplate(message.templateId);
+    if (!template) {
+      console.warn(`訊息 ${message.id} 連結的範本 ${message.templateId} 不存在，使用訊息保存的內容`);
+      return message;
+    }
+    return {
+      ...message,
+      content: template.content,
+      format: template.format,
+      flexContent: template.flexContent,
+      templateVersion: template.version,
+    };
+  }
+
+  // 設定中的金額格式，未設定時使用預設格式
+  async amountTemplate(): Promise<string> {
+    const settings = await this.storage.getSettings();
+    return settings?.amountTemplate || DEFAULT_AMOUNT_TEMPLATE;
+  }
+
+  // 推播已格式化的內容到單一群組，依群組的 deliveryPolicy 決定失敗時的處理方式
+  // 超過 5 個訊息物件時依序分成多次推播，任一次失敗即停止並視為發送失敗
+  // content 為函式時在確認群組需要發送後才建立內容（例如帶入群組的範本變數），建立失敗視為該群組發送失敗
+  async sendToGroup(group: Group, content: LineMessage[] | (() => LineMessage[]), messageId?: number | null): Promise<DispatchResult> {
+    if (group.deliveryPolicy === "disabled") {
+      console.log(`群組 ${group.name} 已停用發送，跳過`);
+      return { groupId: group.id, groupName: group.name, success: false, skipped: true };
+    }
+    if (group.unreachable) {
+      console.log(`群組 ${group.name} 已標記為無法送達，跳過`);
+      return {
+        groupId: group.id,
+        groupName: group.name,
+        success: false,
+        skipped: true,
+        error: "群組已標記為無法送達（LINE Bot 不在群組內）",
+        errorKind: "not_member"
+      };
+    }
+
+    console.log(`嘗試發送訊息到群組: ${group.name} (ID: ${group.lineId})`);
+
+    let batches: LineMessage[][] = [];
+    let sentBatches = 0;
+
+    try {
+      batches = toPushBatches(typeof content === "function" ? content() : content);
+      // 沒有推播任何內容不能視為發送成功
+      if (batches.length === 0) {
+        console.error(`訊息發送到群組 ${group.name} 失敗: ${EMPTY_MESSAGE_CONTENT}`);
+        return { groupId: group.id, groupName: group.name, success: false, error: EMPTY_MESSAGE_CONTENT };
+      }
+      let result: unknown;
+      for (const batch of batches) {
+        result = await this.lineClient.pushMessage(group.lineId, batch, {
+          messageId: messageId ?? null,
+          groupId: group.id
+        });
+        sentBatches++;
+      }
+      console.log(`訊息發送成功到群組: ${group.name}${batches.length > 1 ? `（分 ${batches.length} 次推播）` : ""}`);
+      if (group.notMemberFailures > 0) {
+        await this.trackReachability(group, () => this.storage.resetGroupFailures(group.id));
+      }
+      return { groupId: group.id, groupName: group.name, success: true, result };
+    } catch (error) {
+      // 分次推播時註明失敗前已送出幾次，避免誤以為整則都沒有送出
+      const errorText = sentBatches > 0
+        ? `${error}（已送出 ${sentBatches}/${batches.length} 次推播）`
+        : String(error);
+      const errorKind = error instanceof LineApiError ? error.kind : undefined;
+
+      if (errorKind === "not_member") {
+        await this.trackReachability(group, async () => {
+          const updated = await this.storage.recordGroupNotMember(group.id, UNREACHABLE_AFTER_FAILURES);
+          if (updated?.unreachable && !group.unreachable) {
+            console.warn(`群組 ${group.name} 連續 ${updated.notMemberFailures} 次推播失敗（Bot 不在群組內），標記為無法送達`);
+          }
+        });
+      }
+
+      // best_effort 群組：實際發送但容忍失敗，真實錯誤仍保留在發送紀錄中
+      if (group.deliveryPolicy === "best_effort") {
+        console.log(`⚠️ 群組 ${group.name} 發送失敗，依 best_effort 規則視為成功: ${errorText}`);
+        return {
+          groupId: group.id,
+          groupName: group.name,
+          success: true,
+          tolerated: true,
+          error: errorText,
+          errorKind
+        };
+      }
+
+      console.error(`訊息發送到群組 ${group.name} 失敗:`, errorText);
+      return { groupId: group.id, groupName: group.name, success: false, error: errorText, errorKind };
+    }
+  }
+
+  // 更新群組的連續失敗次數，寫入失敗不影響發送結果
+  private async trackReachability(group: Group, update: () => Promise<unknown>) {
+    try {
+      await update();
+    } catch (err) {
+      console.error(`更新群組 ${group.name} 的送達狀態失敗:`, err);
+    }
+  }
+
+  // 測試發送：不經過排程，只做分段處理
+  async sendContent(group: Group, content: string): Promise<DispatchResult> {
+    if (!(await this.lineClient.isConfigured())) {
+      throw new DispatchError("LINE API Token未配置", 500);
+    }
+    return this.sendToGroup(group, textMessages(breakSentences(content)));
+  }
+
+  // 發送一則訊息到所有目標群組並更新訊息狀態
+  // occurrenceAt 為排程的發送時間點，範本運算式的 now 以此計算；手動發送時為當下
+  // afterGroup 在每個群組發送後呼叫（排程器以此延長佇列工作的鎖），拋出錯誤時停止發送其餘群組
+  async dispatch(
+    message: Message,
+    occurrenceAt?: string | null,
+    afterGroup?: (result: DispatchResult) => Promise<void>
+  ): Promise<DispatchSummary> {
+    const isRecurring = message.type === "periodic" && !!message.recurringActive;
+    const now = new Date().toISOString();
+
+    // 只發送到已核准且 Bot 仍在其中的群組
+    const resolvedGroups = await this.resolveGroups(message.groupIds);
+    const validGroups = resolvedGroups.filter(group => group.status === "active");
+    for (const group of resolvedGroups.filter(group => group.status !== "active")) {
+      console.warn(`群組 ${group.name} 狀態為 ${group.status}，訊息 ${message.id} 不發送到此群組`);
+    }
+
+    if (validGroups.length === 0) {
+      console.error(`訊息 ${message.id} 找不到有效的群組，跳過發送`);
+      // 將單次訊息標記為失敗並移至歷史紀錄
+      if (!isRecurring) {
+        await this.storage.updateMessage(message.id, { status: "failed", sentAt: now, archived: true });
+      }
+      throw new DispatchError("No valid groups found for this message");
+    }
+
+    if (!(await this.lineClient.isConfigured())) {
+      console.error("LINE API Token未配置，跳過發送");
+      throw new DispatchError("LINE API Token is not configured", 400, true);
+    }
+
+    console.log(`將訊息 ${message.id} 發送到 ${validGroups.length} 個群組:`,
+      validGroups.map(g => `${g.name}(ID:${g.id})`).join(', '));
+
+    // 逐一發送，避免同時大量呼叫觸發LINE API配額限制；每個群組帶入各自的範本變數
+    const source = await this.withLinkedTemplate(message);
+    const context = renderContextOf(message, occurrenceAt);
+    const amountTemplate = await this.amountTemplate();
+    const results: DispatchResult[] = [];
+    for (const group of validGroups) {
+      const result = await this.sendToGroup(
+        group,
+        () => buildLineMessages(renderForGroup(source, group, context), amountTemplate),
+        message.id
+      );
+      results.push(result);
+      if (afterGroup) await afterGroup(result);
+    }
+
+    // 已停用的群組不列入成功與否的計算
+    const attempted = results.filter(r => !r.skipped);
+    const successCount = attempted.filter(r => r.success).length;
+    const allSuccess = attempted.length > 0 && successCount === attempted.length;
+    const status = allSuccess ? "sent" : successCount > 0 ? "partial" : "failed";
+
+    // 週期性訊息保持排程狀態等待下次發送，沒有之後的發送時標記為完成；單次訊息封存至歷史紀錄
+    let updatedMessage: Message | undefined;
+    if (isRecurring) {
+      const occurrenceCount = (message.occurrenceCount ?? 0) + 1;
+      // 與排程器計算到期時間點時使用相同的時區與假日行事曆
+      const calendar = new HolidayCalendar(await this.storage.getHolidays());
+      const exhausted = isScheduleExhausted({ ...message, occurrenceCount }, moment().tz(zoneOf(message)), calendar);
+      if (exhausted) {
+        console.log(`週期性訊息 ${message.id} 已達結束條件，標記為完成`);
+      }
+      // 佇列工作記錄的是這次發送對應的時間點；補發較早的時間點時不讓 lastSent 倒退
+      const lastSent = occurrenceAt
+        ? (message.lastSent && Date.parse(message.lastSent) > Date.parse(occurrenceAt) ? message.lastSent : occurrenceAt)
+        : now;
+      updatedMessage = await this.storage.updateMessage(message.id, {
+        status: exhausted ? "completed" : "scheduled",
+        lastSent,
+        occurrenceCount,
+      });
+    } else {
+      updatedMessage = await this.storage.updateMessage(message.id, { status, lastSent: now, sentAt: now, archived: true });
+    }
+
+    console.log(`訊息 ID: ${message.id} 已處理完畢，結果: ${status}`);
+
+    return { status, allSuccess, results, message: updatedMessage };
+  }
+}
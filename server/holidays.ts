@@ -0,0 +1,172 @@
+import moment from "moment-timezone";
+import { Holiday, HolidayRule, InsertHoliday } from "@shared/schema";
+
+// 移到工作日時最多往前/往後找幾天（農曆春節連假約九天）
+const MAX_SHIFT_DAYS = 31;
+
+// 行事曆匯入格式錯誤
+export class HolidayImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HolidayImportError";
+  }
+}
+
+// 工作日判斷：週一至週五為工作日，行事曆中的國定假日不上班、補班日需上班
+export class HolidayCalendar {
+  private days = new Map<string, Pick<Holiday, "name" | "isWorkday">>();
+
+  constructor(holidays: Pick<Holiday, "date" | "name" | "isWorkday">[] = []) {
+    for (const holiday of holidays) {
+      this.days.set(holiday.date, holiday);
+    }
+  }
+
+  // 以傳入時間點本身時區的日期判斷，不同時區的訊息都以當地日期對照行事曆
+  isBusinessDay(day: moment.Moment): boolean {
+    const entry = this.days.get(day.format("YYYY-MM-DD"));
+    if (entry) return entry.isWorkday;
+    return day.isoWeekday() <= 5;
+  }
+
+  // 往前（-1）或往後（1）找到最近的工作日，時分不變；找不到時回傳 null
+  shiftToBusinessDay(occurrence: moment.Moment, direction: 1 | -1): moment.Moment | null {
+    const day = occurrence.clone();
+    for (let i = 0; i <= MAX_SHIFT_DAYS; i++) {
+      if (this.isBusinessDay(day)) return day;
+      day.add(direction, "day");
+    }
+    return null;
+  }
+
+  // 依訊息的假日規則調整發送時間點；移動後落在同一時間的只保留一次
+  apply(occurrences: moment.Moment[], rule: HolidayRule): moment.Moment[] {
+    if (rule === "none") return occurrences;
+
+    const adjusted = new Map<number, moment.Moment>();
+    for (const occurrence of occurrences) {
+      let result: moment.Moment | null = occurrence;
+      if (!this.isBusinessDay(occurrence)) {
+        if (rule === "skip") result = null;
+        else if (rule === "next_business_day") result = this.shiftToBusinessDay(occurrence, 1);
+        else if (rule === "previous_business_day") result = this.shiftToBusinessDay(occurrence, -1);
+      }
+      if (result) adjusted.set(result.valueOf(), result);
+    }
+
+    return Array.from(adjusted.values()).sort((a, b) => a.valueOf() - b.valueOf());
+  }
+}
+
+// 名稱包含「補班」「補行上班」的視為調整上班日
+function isWorkdayName(name: string): boolean {
+  return /補班|補行上班/.test(name);
+}
+
+function normalizeDate(value: string): string | null {
+  const match = String(value).trim().match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/);
+  if (!match) return null;
+  const date = moment.tz(`${match[1]}-${match[2]}-${match[3]}`, "YYYY-MM-DD", true, "Asia/Taipei");
+  return date.isValid() ? date.format("YYYY-MM-DD") : null;
+}
+
+// 解析 ICS 行事曆：每個 VEVENT 的每一天為一筆（DTEND 為不含的結束日）
+export function parseHolidayIcs(content: string): InsertHoliday[] {
+  if (!content.includes("BEGIN:VCALENDAR")) {
+    throw new HolidayImportError("不是有效的 ICS 檔案");
+  }
+
+  // 展開折行（RFC 5545：以空白或 tab 開頭的行接續上一行）
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const result: InsertHoliday[] = [];
+
+  let event: Record<string, string> | null = null;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (event) result.push(...icsEventToHolidays(event));
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    event[name] = line.slice(separator + 1);
+  }
+
+  return result;
+}
+
+function icsDate(value: string): moment.Moment | null {
+  // 有時間且為 UTC 時換算成台灣日期，其餘只取日期部分
+  if (/^\d{8}T\d{6}Z$/.test(value)) {
+    return moment.utc(value, "YYYYMMDD[T]HHmmss[Z]").tz("Asia/Taipei").startOf("day");
+  }
+  const date = normalizeDate(value.slice(0, 8));
+  return date ? moment.tz(date, "Asia/Taipei") : null;
+}
+
+function icsEventToHolidays(event: Record<string, string>): InsertHoliday[] {
+  const start = event.DTSTART ? icsDate(event.DTSTART) : null;
+  if (!start) return [];
+
+  const end = event.DTEND ? icsDate(event.DTEND) : null;
+  const name = (event.SUMMARY || "").replace(/\\([,;\\])/g, "$1").replace(/\\n/gi, " ").trim() || "假日";
+  const isWorkday = isWorkdayName(name);
+
+  const result: InsertHoliday[] = [];
+  const day = start.clone();
+  do {
+    result.push({ date: day.format("YYYY-MM-DD"), name, isWorkday });
+    day.add(1, "day");
+  } while (end && day.isBefore(end) && result.length < 366);
+
+  return result;
+}
+
+// 解析 JSON 行事曆，支援兩種格式：
+// 1. [{ "date": "2025-01-01", "name": "開國紀念日", "isWorkday": false }]
+// 2. 政府資料開放平臺格式 [{ "date": "20250101", "isHoliday": true, "description": "開國紀念日" }]，
+//    此格式列出全年每一天，只保留與平常週末/平日不同的日子
+export function parseHolidayJson(content: string): InsertHoliday[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new HolidayImportError("JSON 格式錯誤");
+  }
+
+  const items = Array.isArray(data) ? data : (data as { holidays?: unknown })?.holidays;
+  if (!Array.isArray(items)) {
+    throw new HolidayImportError("JSON 必須是陣列，或包含 holidays 陣列的物件");
+  }
+
+  const result: InsertHoliday[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const record = item as Record<string, unknown>;
+
+    const date = normalizeDate(String(record.date ?? record["西元日期"] ?? ""));
+    if (!date) {
+      throw new HolidayImportError(`日期格式錯誤: ${JSON.stringify(item)}`);
+    }
+    const name = String(record.name ?? record.description ?? record["備註"] ?? "").trim();
+
+    if (typeof record.isHoliday === "boolean") {
+      const isWeekend = moment.tz(date, "Asia/Taipei").isoWeekday() > 5;
+      if (record.isHoliday === isWeekend) continue; // 與平常相同，不需記錄
+      result.push({ date, name: name || (record.isHoliday ? "假日" : "補班"), isWorkday: !record.isHoliday });
+      continue;
+    }
+
+    const isWorkday = typeof record.isWorkday === "boolean" ? record.isWorkday : isWorkdayName(name);
+    result.push({ date, name: name || (isWorkday ? "補班" : "假日"), isWorkday });
+  }
+
+  return result;
+}
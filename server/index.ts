@@ -1,19 +1,25 @@
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
-import "./initTables"; // 系統啟動時建立資料表
+import { initTables } from "./initTables";
 
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { initializeDefaultData } from "./storage";
+import { MEDIA_DIR, MEDIA_ROUTE } from "./media";
+import { captureRawBody } from "./webhook";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// 保留原始內容供 LINE Webhook 驗證簽章
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: false }));
 app.use(express.static(join(__dirname, "../public")));
+// 上傳的圖片需公開給 LINE 伺服器下載，檔名為隨機 UUID 且不會覆寫
+app.use(MEDIA_ROUTE, express.static(MEDIA_DIR, { maxAge: "30d", immutable: true }));
 
 // 簡單的後端 log function（避免使用 Vite 的 log）
 function log(message: string) {
@@ -52,6 +58,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // 系統啟動時建立資料表，完成後才初始化默認數據、註冊 API 與啟動排程器
+  await initTables();
+  await initializeDefaultData();
+
   // 註冊後端 API
   const server = await registerRoutes(app);
 
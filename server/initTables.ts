@@ -1,6 +1,9 @@
+import { resolve } from "path";
+import { fileURLToPath } from "url";
 import { pool } from "./db"; // 你已經在 db.ts 建立好的 Postgres pool
 
-async function initTables() {
+// 建立或更新資料表；伺服器啟動時需等待完成後才能存取資料庫，失敗時拋出錯誤
+export async function initTables() {
   const client = await pool.connect();
 
   try {
@@ -11,9 +14,30 @@ async function initTables() {
       CREATE TABLE IF NOT EXISTS groups (
         id SERIAL PRIMARY KEY,
         name TEXT NOT NULL,
-        line_id TEXT NOT NULL UNIQUE
+        line_id TEXT NOT NULL UNIQUE,
+        delivery_policy TEXT NOT NULL DEFAULT 'strict',
+        timezone TEXT NOT NULL DEFAULT 'Asia/Taipei',
+        variables JSON NOT NULL DEFAULT '{}'
       );
     `);
+    await client.query(`
+      ALTER TABLE groups
+        ADD COLUMN IF NOT EXISTS delivery_policy TEXT NOT NULL DEFAULT 'strict',
+        ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Taipei',
+        ADD COLUMN IF NOT EXISTS variables JSON NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+        ADD COLUMN IF NOT EXISTS member_count INTEGER,
+        ADD COLUMN IF NOT EXISTS joined_at TEXT,
+        ADD COLUMN IF NOT EXISTS left_at TEXT,
+        ADD COLUMN IF NOT EXISTS unreachable BOOLEAN NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS not_member_failures INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS unreachable_at TEXT;
+    `);
+    // 安可淘比原本以 ID 18 寫死容忍失敗，改為 best_effort 規則（只在欄位仍為預設值時套用）
+    await client.query(`
+      UPDATE groups SET delivery_policy = 'best_effort'
+      WHERE line_id = 'C0087254caf944297a7081be33dc4c8df' AND delivery_policy = 'strict';
+    `);
     console.log("✔️  groups 建立完成");
 
     // === templates =========================================================
@@ -22,11 +46,44 @@ async function initTables() {
         id SERIAL PRIMARY KEY,
         name TEXT NOT NULL,
         content TEXT NOT NULL,
-        type TEXT NOT NULL
+        type TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'text',
+        flex_content TEXT,
+        variables JSON NOT NULL DEFAULT '[]'
       );
     `);
+    await client.query(`
+      ALTER TABLE templates
+        ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'text',
+        ADD COLUMN IF NOT EXISTS flex_content TEXT,
+        ADD COLUMN IF NOT EXISTS variables JSON NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+    `);
     console.log("✔️  templates 建立完成");
 
+    // === template_versions =================================================
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS template_versions (
+        id SERIAL PRIMARY KEY,
+        template_id INTEGER NOT NULL,
+        version INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'text',
+        flex_content TEXT,
+        variables JSON NOT NULL DEFAULT '[]',
+        restored_from INTEGER,
+        created_at TEXT NOT NULL,
+        CONSTRAINT template_versions_template_version_key UNIQUE (template_id, version)
+      );
+    `);
+    await client.query(`
+      ALTER TABLE template_versions
+        ADD COLUMN IF NOT EXISTS template_deleted_at TEXT;
+    `);
+    console.log("✔️  template_versions 建立完成");
+
     // === messages ==========================================================
     await client.query(`
       CREATE TABLE IF NOT EXISTS messages (
@@ -42,10 +99,49 @@ async function initTables() {
         currency TEXT,
         amount TEXT,
         recurring_type TEXT,
+        rrule TEXT,
         last_sent TEXT,
-        recurring_active BOOLEAN DEFAULT FALSE
+        recurring_active BOOLEAN DEFAULT FALSE,
+        missed_run_policy TEXT NOT NULL DEFAULT 'send_once_late',
+        max_lateness_minutes INTEGER,
+        until TEXT,
+        max_occurrences INTEGER,
+        occurrence_count INTEGER NOT NULL DEFAULT 0,
+        holiday_rule TEXT NOT NULL DEFAULT 'none',
+        month_end_overflow TEXT NOT NULL DEFAULT 'clamp',
+        timezone TEXT NOT NULL DEFAULT 'Asia/Taipei',
+        window_jitter BOOLEAN NOT NULL DEFAULT FALSE,
+        format TEXT NOT NULL DEFAULT 'text',
+        flex_content TEXT,
+        attachments JSON NOT NULL DEFAULT '[]',
+        variables JSON NOT NULL DEFAULT '{}',
+        sent_at TEXT,
+        archived BOOLEAN NOT NULL DEFAULT FALSE
       );
     `);
+    // 既有資料表補上新欄位
+    await client.query(`
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS sent_at TEXT,
+        ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS missed_run_policy TEXT NOT NULL DEFAULT 'send_once_late',
+        ADD COLUMN IF NOT EXISTS max_lateness_minutes INTEGER,
+        ADD COLUMN IF NOT EXISTS rrule TEXT,
+        ADD COLUMN IF NOT EXISTS until TEXT,
+        ADD COLUMN IF NOT EXISTS max_occurrences INTEGER,
+        ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS holiday_rule TEXT NOT NULL DEFAULT 'none',
+        ADD COLUMN IF NOT EXISTS month_end_overflow TEXT NOT NULL DEFAULT 'clamp',
+        ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Taipei',
+        ADD COLUMN IF NOT EXISTS window_jitter BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'text',
+        ADD COLUMN IF NOT EXISTS flex_content TEXT,
+        ADD COLUMN IF NOT EXISTS attachments JSON NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS variables JSON NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS template_id INTEGER,
+        ADD COLUMN IF NOT EXISTS template_version INTEGER,
+        ADD COLUMN IF NOT EXISTS template_linked BOOLEAN NOT NULL DEFAULT FALSE;
+    `);
     console.log("✔️  messages 建立完成");
 
     // === settings ==========================================================
@@ -57,15 +153,104 @@ async function initTables() {
         last_synced TEXT,
         is_connected BOOLEAN DEFAULT FALSE
       );
+      ALTER TABLE settings
+        ADD COLUMN IF NOT EXISTS amount_template TEXT,
+        ADD COLUMN IF NOT EXISTS admin_user_ids JSON NOT NULL DEFAULT '[]';
     `);
     console.log("✔️  settings 建立完成");
 
+    // === holidays ==========================================================
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS holidays (
+        id SERIAL PRIMARY KEY,
+        date TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        is_workday BOOLEAN NOT NULL DEFAULT FALSE
+      );
+    `);
+    console.log("✔️  holidays 建立完成");
+
+    // === deliveries ========================================================
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER,
+        group_id INTEGER NOT NULL,
+        line_request_id TEXT,
+        http_status INTEGER,
+        error_body TEXT,
+        attempt INTEGER NOT NULL DEFAULT 1,
+        success BOOLEAN NOT NULL DEFAULT FALSE,
+        attempted_at TEXT NOT NULL,
+        responded_at TEXT
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS deliveries_message_id_idx ON deliveries (message_id);
+      CREATE INDEX IF NOT EXISTS deliveries_group_attempted_idx ON deliveries (group_id, attempted_at);
+    `);
+    console.log("✔️  deliveries 建立完成");
+
+    // === send_jobs =========================================================
+    // (message_id, occurrence_at) 唯一，多個程序同時排入同一次發送也只會有一筆
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS send_jobs (
+        id SERIAL PRIMARY KEY,
+        message_id INTEGER NOT NULL,
+        occurrence_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        run_at TEXT NOT NULL,
+        expires_at TEXT,
+        locked_by TEXT,
+        locked_until TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        completed_at TEXT,
+        CONSTRAINT send_jobs_message_occurrence_key UNIQUE (message_id, occurrence_at)
+      );
+    `);
+    await client.query(`
+      ALTER TABLE send_jobs ADD COLUMN IF NOT EXISTS expires_at TEXT;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS send_jobs_status_run_at_idx ON send_jobs (status, run_at);
+    `);
+    console.log("✔️  send_jobs 建立完成");
+
+    // === inbound_messages ==================================================
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS inbound_messages (
+        id SERIAL PRIMARY KEY,
+        group_id INTEGER NOT NULL,
+        line_message_id TEXT NOT NULL UNIQUE,
+        line_user_id TEXT,
+        type TEXT NOT NULL,
+        text TEXT,
+        media_file TEXT,
+        quoted_message_id TEXT,
+        received_at TEXT NOT NULL
+      );
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS inbound_messages_group_received_idx ON inbound_messages (group_id, received_at);
+    `);
+    console.log("✔️  inbound_messages 建立完成");
+
     console.log("🎉 所有資料表建立完成！");
   } catch (err) {
     console.error("❌ 建立資料表時發生錯誤：", err);
+    throw err;
   } finally {
     client.release();
   }
 }
 
-initTables();
+// 直接執行（npm run db:init）時建立資料表後結束
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  initTables()
+    .catch(() => {
+      process.exitCode = 1;
+    })
+    .finally(() => pool.end());
+}
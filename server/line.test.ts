@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fetch, { Response } from "node-fetch";
+import type { IStorage } from "./storage";
+import { LineApiClient, LineApiError, classifyLineError } from "./line";
+
+const GROUP_ID = `C${"0".repeat(32)}`;
+const BAD_PAYLOAD = JSON.stringify({
+  message: "A message (messages[0]) in the request body is invalid",
+  details: [{ message: "must be specified", property: "/contents" }],
+});
+
+// 假的 LINE API：依網址回傳指定的狀態碼與內容，並記錄呼叫過的網址
+function fakeFetch(routes: Record<string, { status: number; body: string }>) {
+  const calls: string[] = [];
+  const impl = (async (url: string) => {
+    calls.push(url);
+    const path = new URL(url).pathname;
+    const route = routes[path] ?? { status: 500, body: "" };
+    return new Response(route.body, { status: route.status });
+  }) as unknown as typeof fetch;
+  return { impl, calls };
+}
+
+const storage = { getSettings: async () => ({ lineApiToken: "token" }) } as unknown as IStorage;
+const summaryPath = `/v2/bot/group/${GROUP_ID}/summary`;
+
+describe("classifyLineError", () => {
+  it("ID 格式錯誤時為 invalid_target", () => {
+    assert.equal(classifyLineError(400, "The property, 'to', in the request body is invalid", "C123"), "invalid_target");
+  });
+
+  it("未確認 Bot 不在群組內時，400/404 都不視為 not_member", () => {
+    assert.equal(classifyLineError(400, "Failed to send messages", GROUP_ID), "unknown");
+    assert.equal(classifyLineError(404, "Not found", GROUP_ID), "unknown");
+    assert.equal(classifyLineError(400, "Failed to send messages", GROUP_ID, true), "unknown");
+  });
+
+  it("群組摘要確認 Bot 不在群組內時為 not_member", () => {
+    assert.equal(classifyLineError(400, "Failed to send messages", GROUP_ID, false), "not_member");
+  });
+});
+
+describe("LineApiClient.pushMessage 400 錯誤", () => {
+  it("內容錯誤（Bot 仍在群組內）時為 unknown", async () => {
+    const line = fakeFetch({
+      "/v2/bot/message/push": { status: 400, body: BAD_PAYLOAD },
+      [summaryPath]: { status: 200, body: JSON.stringify({ groupId: GROUP_ID, groupName: "群組" }) },
+    });
+    const client = new LineApiClient(storage, line.impl);
+
+    await assert.rejects(
+      client.pushMessage(GROUP_ID, { type: "text", text: "" }),
+      (err: unknown) => err instanceof LineApiError && err.kind === "unknown" && err.status === 400
+    );
+    assert.ok(line.calls.some(url => url.endsWith(summaryPath)));
+  });
+
+  it("群組摘要查詢失敗（無法確認）時為 unknown", async () => {
+    const line = fakeFetch({
+      "/v2/bot/message/push": { status: 400, body: JSON.stringify({ message: "Failed to send messages" }) },
+      [summaryPath]: { status: 500, body: "" },
+    });
+    const client = new LineApiClient(storage, line.impl);
+
+    await assert.rejects(
+      client.pushMessage(GROUP_ID, "hi"),
+      (err: unknown) => err instanceof LineApiError && err.kind === "unknown"
+    );
+  });
+
+  it("群組摘要回傳 404 時為 not_member", async () => {
+    const line = fakeFetch({
+      "/v2/bot/message/push": { status: 400, body: JSON.stringify({ message: "Failed to send messages" }) },
+      [summaryPath]: { status: 404, body: JSON.stringify({ message: "Not found" }) },
+    });
+    const client = new LineApiClient(storage, line.impl);
+
+    await assert.rejects(
+      client.pushMessage(GROUP_ID, "hi"),
+      (err: unknown) => err instanceof LineApiError && err.kind === "not_member"
+    );
+  });
+});
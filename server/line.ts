@@ -0,0 +1,365 @@
+import fetch from "node-fetch";
+import { InsertDelivery } from "@shared/schema";
+import type { FlexContainer } from "@shared/flex";
+import type { IStorage } from "./storage";
+
+// 推播時要寫入發送紀錄的關聯資訊
+export type DeliveryContext = {
+  messageId?: number | null;
+  groupId: number;
+};
+
+// 推播的訊息物件：純文字、Flex Message、圖片或貼圖
+export type LineMessage =
+  | { type: "text"; text: string }
+  | { type: "flex"; altText: string; contents: FlexContainer }
+  | { type: "image"; originalContentUrl: string; previewImageUrl: string }
+  | { type: "sticker"; packageId: string; stickerId: string };
+
+// LINE 推播介面 - 排程與手動發送都透過此介面，方便替換成假的實作
+export interface LineClient {
+  // 是否已設定可用的 Channel Access Token
+  isConfigured(): Promise<boolean>;
+  // content 為字串時以文字訊息發送；陣列（最多 5 個）在同一次推播送出；回傳 LINE API 的回應內容
+  pushMessage(to: string, content: string | LineMessage | LineMessage[], delivery?: DeliveryContext): Promise<unknown>;
+  // 以 Webhook 事件的 replyToken 回覆，不計入每月推播額度
+  replyMessage(replyToken: string, content: string | LineMessage | LineMessage[]): Promise<void>;
+  // 群組名稱與人數，查詢失敗（例如 Bot 不在群組內）時回傳 null
+  getGroupSummary(lineGroupId: string): Promise<LineGroupSummary | null>;
+  getGroupMemberCount(lineGroupId: string): Promise<number | null>;
+  // 使用者傳送的圖片等內容，查詢失敗時回傳 null
+  getMessageContent(lineMessageId: string): Promise<{ data: Buffer; contentType: string } | null>;
+}
+
+// LINE API 錯誤分類
+// not_member: Bot 不在群組內（被踢出或從未加入）；invalid_target: 推播對象 ID 格式錯誤
+// quota: 本月訊息額度已用完；rate_limit: 短時間內請求過多，稍後可重試；auth: Token 無效或沒有權限
+export type LineErrorKind = "not_member" | "invalid_target" | "quota" | "rate_limit" | "auth" | "unknown";
+
+export class LineApiError extends Error {
+  constructor(
+    message: string,
+    public kind: LineErrorKind,
+    public status: number,
+    public body: string = ""
+  ) {
+    super(message);
+    this.name = "LineApiError";
+  }
+}
+
+// 群組 C、聊天室 R、使用者 U 開頭加上 32 碼十六進位
+const LINE_TARGET_ID = /^[CRU][0-9a-f]{32}$/;
+
+// 依 HTTP 狀態碼與錯誤訊息判斷錯誤類型
+// LINE 對 Bot 不在群組內、ID 錯誤與內容錯誤（例如 Flex 格式錯誤）都回傳 400，錯誤訊息無法區分：
+// ID 格式錯誤時為 invalid_target；格式正確時只有 botInGroup 確認為 false（群組摘要查詢回傳 404）才視為 Bot 不在群組內
+export function classifyLineError(
+  status: number,
+  message: string,
+  lineGroupId: string,
+  botInGroup: boolean | null = null
+): LineErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return /monthly limit/i.test(message) ? "quota" : "rate_limit";
+  if (status === 400 || status === 404) {
+    if (!LINE_TARGET_ID.test(lineGroupId)) return "invalid_target";
+    if (botInGroup === false) return "not_member";
+  }
+  return "unknown";
+}
+
+const lineErrorDescriptions: Record<LineErrorKind, string> = {
+  not_member: "LINE Bot 不在此群組內",
+  invalid_target: "LINE 群組 ID 格式錯誤",
+  quota: "本月訊息額度已用完",
+  rate_limit: "LINE API 請求過於頻繁",
+  auth: "Channel Access Token 無效或沒有權限",
+  unknown: "LINE API 錯誤",
+};
+
+export type LineGroupSummary = {
+  groupId: string;
+  groupName: string;
+  pictureUrl?: string;
+};
+
+export class LineApiClient implements LineClient {
+  constructor(private storage: IStorage, private fetchImpl: typeof fetch = fetch) {}
+
+  // 優先使用環境變量中的ACCESS TOKEN，如果沒有則使用資料庫設定
+  private async resolveToken(): Promise<string | undefined> {
+    if (process.env.LINE_CHANNEL_ACCESS_TOKEN) {
+      return process.env.LINE_CHANNEL_ACCESS_TOKEN;
+    }
+    const settings = await this.storage.getSettings();
+    return settings?.lineApiToken || undefined;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return !!(await this.resolveToken());
+  }
+
+  // 查詢用的 GET 請求，失敗時記錄錯誤並回傳 null
+  private async getJson<T>(path: string): Promise<T | null> {
+    const token = await this.resolveToken();
+    if (!token) return null;
+
+    try {
+      const response = await this.fetchImpl(`https://api.line.me${path}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        console.error(`LINE API查詢失敗 ${path}: ${response.status} ${await response.text()}`);
+        return null;
+      }
+      return await response.json() as T;
+    } catch (err) {
+      console.error(`LINE API查詢失敗 ${path}:`, err);
+      return null;
+    }
+  }
+
+  async getGroupSummary(lineGroupId: string): Promise<LineGroupSummary | null> {
+    return this.getJson<LineGroupSummary>(`/v2/bot/group/${encodeURIComponent(lineGroupId)}/summary`);
+  }
+
+  // 推播失敗時確認 Bot 是否仍在群組內：群組摘要回傳 404 為 false，查詢成功為 true
+  // 聊天室、使用者或查詢本身失敗時回傳 null，無法確認
+  private async botInGroup(lineGroupId: string, token: string): Promise<boolean | null> {
+    if (!lineGroupId.startsWith("C")) return null;
+    try {
+      const response = await this.fetchImpl(`https://api.line.me/v2/bot/group/${encodeURIComponent(lineGroupId)}/summary`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) return true;
+      return response.status === 404 ? false : null;
+    } catch (err) {
+      console.error(`確認 Bot 是否在群組 ${lineGroupId} 內時失敗:`, err);
+      return null;
+    }
+  }
+
+  async getGroupMemberCount(lineGroupId: string): Promise<number | null> {
+    const result = await this.getJson<{ count: number }>(`/v2/bot/group/${encodeURIComponent(lineGroupId)}/members/count`);
+    return result?.count ?? null;
+  }
+
+  async getMessageContent(lineMessageId: string): Promise<{ data: Buffer; contentType: string } | null> {
+    const token = await this.resolveToken();
+    if (!token) return null;
+
+    const path = `/v2/bot/message/${encodeURIComponent(lineMessageId)}/content`;
+    try {
+      const response = await this.fetchImpl(`https://api-data.line.me${path}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        console.error(`LINE API查詢失敗 ${path}: ${response.status} ${await response.text()}`);
+        return null;
+      }
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType: (response.headers.get("content-type") || "").split(";")[0].trim(),
+      };
+    } catch (err) {
+      console.error(`LINE API查詢失敗 ${path}:`, err);
+      return null;
+    }
+  }
+
+  // replyToken 只能使用一次且很快失效，不重試
+  async replyMessage(replyToken: string, content: string | LineMessage | LineMessage[]): Promise<void> {
+    const token = await this.resolveToken();
+    if (!token) {
+      throw new LineApiError("LINE Channel Access Token not found", "auth", 0);
+    }
+
+    const messages: LineMessage[] = typeof content === "string"
+      ? [{ type: "text", text: content }]
+      : Array.isArray(content) ? content : [content];
+
+    const response = await this.fetchImpl("https://api.line.me/v2/bot/message/reply", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`
+      },
+      body: JSON.stringify({ replyToken, messages })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      // replyToken 失效或已使用時同樣回傳 400，視為對象錯誤
+      const kind = response.status === 400 ? "invalid_target" : classifyLineError(response.status, body, "");
+      throw new LineApiError(`LINE Reply API Error (${response.status}): ${lineErrorDescriptions[kind]} - ${body}`, kind, response.status, body);
+    }
+  }
+
+  // 記錄單次推播嘗試到 deliveries 表，寫入失敗不影響發送流程
+  private async recordDelivery(delivery: InsertDelivery) {
+    try {
+      await this.storage.createDelivery(delivery);
+    } catch (err) {
+      console.error("寫入發送紀錄失敗:", err);
+    }
+  }
+
+  // 若提供 delivery 參數，每次嘗試（含重試）都會寫入一筆發送紀錄
+  async pushMessage(lineGroupId: string, content: string | LineMessage | LineMessage[], delivery?: DeliveryContext): Promise<unknown> {
+    const lineMessages: LineMessage[] = typeof content === "string"
+      ? [{ type: "text", text: content }]
+      : Array.isArray(content) ? content : [content];
+
+    try {
+      // 使用原始的push API
+      const LINE_API_URL = "https://api.line.me/v2/bot/message/push";
+      console.log(`發送訊息到LINE API的URL: ${LINE_API_URL}`);
+
+      const token = await this.resolveToken();
+
+      if (!token) {
+        throw new LineApiError("LINE Channel Access Token not found", "auth", 0);
+      }
+
+      const contentLength = JSON.stringify(lineMessages).length;
+      console.log(`實際發送Line訊息：群組ID=${lineGroupId}，格式=${lineMessages.map(m => m.type).join("+")}，Token長度=${token.length}字元，內容長度=${contentLength}字元`);
+
+      // 檢查LINE群組ID是否有效
+      if (!lineGroupId || lineGroupId.trim() === "") {
+        throw new LineApiError("Invalid LINE Group ID - Group ID is empty", "invalid_target", 0);
+      }
+
+      // 檢查GROUP ID格式，LINE群組ID通常以C開頭並且長度約為33個字元
+      if (!lineGroupId.startsWith("C") || lineGroupId.length < 20) {
+        console.warn(`Suspicious LINE Group ID: ${lineGroupId} - format may be invalid`);
+      }
+
+      // 增加重試機制
+      const MAX_RETRIES = 2;
+      let retryCount = 0;
+      let lastError = null;
+
+      while (retryCount <= MAX_RETRIES) {
+        try {
+          // 使用原始的push API格式
+          const requestBody = {
+            to: lineGroupId,
+            messages: lineMessages
+          };
+          console.log(`第${retryCount + 1}次嘗試 - 使用Push訊息API`);
+
+          console.log("發送LINE訊息requestBody:", JSON.stringify(requestBody, null, 2));
+
+          const attemptedAt = new Date().toISOString();
+          let response;
+          try {
+            response = await this.fetchImpl(LINE_API_URL, {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${token}`
+              },
+              body: JSON.stringify(requestBody)
+            });
+          } catch (networkError) {
+            // 連線失敗時沒有HTTP狀態碼，仍然記錄這次嘗試
+            if (delivery) {
+              await this.recordDelivery({
+                messageId: delivery.messageId ?? null,
+                groupId: delivery.groupId,
+                attempt: retryCount + 1,
+                success: false,
+                errorBody: networkError instanceof Error ? networkError.message : String(networkError),
+                attemptedAt,
+                respondedAt: null,
+              });
+            }
+            throw networkError;
+          }
+
+          // 不論是否成功都獲取響應
+          let resultText = '';
+          try {
+            resultText = await response.text();
+            console.log(`LINE API原始回應: ${resultText}`);
+          } catch (e) {
+            console.error("無法讀取回應內容:", e);
+          }
+
+          if (delivery) {
+            await this.recordDelivery({
+              messageId: delivery.messageId ?? null,
+              groupId: delivery.groupId,
+              lineRequestId: response.headers.get("x-line-request-id"),
+              httpStatus: response.status,
+              errorBody: response.ok ? null : resultText,
+              attempt: retryCount + 1,
+              success: response.ok,
+              attemptedAt,
+              respondedAt: new Date().toISOString(),
+            });
+          }
+
+          // 檢查回應是否為HTML格式（通常是錯誤頁面）
+          if (resultText.trim().startsWith('<!DOCTYPE') || resultText.trim().startsWith('<html')) {
+            console.error("收到HTML回應而非JSON:", resultText.substring(0, 200) + "...");
+            throw new Error("LINE API 返回了HTML頁面而非JSON，可能是TOKEN無效或API伺服器問題");
+          }
+
+          let result;
+          try {
+            if (resultText.trim()) {
+              result = JSON.parse(resultText);
+            } else {
+              // 空回應處理
+              result = { success: true, note: "Empty response from LINE API (this is sometimes normal)" };
+            }
+          } catch (e) {
+            console.error("無法解析JSON回應:", e);
+            console.error("原始文本:", resultText);
+            result = { raw: resultText };
+            // 不拋出錯誤，繼續處理
+          }
+
+          if (!response.ok) {
+            const detail = result?.message || response.statusText || resultText;
+            const botInGroup = response.status === 400 || response.status === 404
+              ? await this.botInGroup(lineGroupId, token)
+              : null;
+            const kind = classifyLineError(response.status, detail, lineGroupId, botInGroup);
+            console.error(`LINE API錯誤: 狀態碼=${response.status}, 類型=${kind}（${lineErrorDescriptions[kind]}）, 群組ID=${lineGroupId}`);
+            console.error("LINE API錯誤詳情:", result);
+            throw new LineApiError(`LINE API Error (${response.status}): ${lineErrorDescriptions[kind]} - ${detail}`, kind, response.status, resultText);
+          }
+
+          return result;
+        } catch (error) {
+          console.error(`第${retryCount + 1}次嘗試發送LINE訊息失敗:`, error);
+          lastError = error;
+
+          // 只有請求過於頻繁時重試，其他錯誤（包含額度用完）直接拋出
+          if (!(error instanceof LineApiError && error.kind === "rate_limit")) {
+            throw error;
+          }
+
+          retryCount++;
+          if (retryCount <= MAX_RETRIES) {
+            const waitTime = retryCount * 2000; // 累進式等待
+            console.log(`等待${waitTime/1000}秒後進行第${retryCount + 1}次嘗試...`);
+            await new Promise(resolve => setTimeout(resolve, waitTime));
+          } else {
+            console.error(`已達最大重試次數(${MAX_RETRIES+1}次)，無法發送訊息`);
+            throw lastError;
+          }
+        }
+      }
+
+      const errorDetails = lastError instanceof Error ? lastError.message : String(lastError);
+      throw new Error(`在重試${MAX_RETRIES}次後仍無法發送LINE訊息: ${errorDetails || "未知錯誤"}`);
+    } catch (error) {
+      console.error("Failed to send LINE message:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import type { Group, GroupStatus, InboundMessage } from "@shared/schema";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
+import type { IStorage } from "./storage";
+import type { LineClient } from "./line";
+import { INBOUND_MEDIA_DIR, saveMedia } from "./media";
+
+// LINE Webhook 事件中用到的欄位
+export type LineEventSource = {
+  type: "user" | "group" | "room" | string;
+  userId?: string;
+  groupId?: string;
+  roomId?: string;
+};
+
+export type LineWebhookEvent = {
+  type: string;
+  timestamp?: number;
+  replyToken?: string;
+  source?: LineEventSource;
+  message?: {
+    id?: string;
+    type: string;
+    text?: string;
+    quotedMessageId?: string;
+    contentProvider?: { type: "line" | "external" | string };
+  };
+  joined?: { members: LineEventSource[] };
+  left?: { members: LineEventSource[] };
+};
+
+// Bot 加入/離開群組與成員進出的事件
+export const membershipEventTypes = ["join", "leave", "memberJoined", "memberLeft"];
+
+// 事件來源的群組或聊天室 ID，一對一聊天時為空
+export function chatIdOf(source?: LineEventSource): string | undefined {
+  return source?.groupId || source?.roomId;
+}
+
+// 沒有群組名稱時（聊天室或查詢失敗）以 ID 末碼作為暫時名稱，核准時再命名
+function defaultGroupName(source: LineEventSource, chatId: string): string {
+  return `${source.type === "room" ? "聊天室" : "新群組"} ${chatId.slice(-6)}`;
+}
+
+// 依事件更新群組資料：
+// join 建立待核准的群組（或讓離開過的群組重新等待核准），並向 LINE 查詢群組名稱與人數；重新加入時清除無法送達標記
+// leave 將群組標記為 inactive，之後不再發送
+// memberJoined / memberLeft 更新群組人數
+export async function handleMembershipEvent(
+  event: LineWebhookEvent,
+  storage: IStorage,
+  lineClient: LineClient
+): Promise<Group | undefined> {
+  const chatId = chatIdOf(event.source);
+  if (!chatId || !event.source) return undefined;
+
+  const now = new Date(event.timestamp || Date.now()).toISOString();
+  const existing = await storage.getGroupByLineId(chatId);
+  const isGroup = event.source.type === "group";
+
+  switch (event.type) {
+    case "join": {
+      const [summary, memberCount] = isGroup
+        ? await Promise.all([lineClient.getGroupSummary(chatId), lineClient.getGroupMemberCount(chatId)])
+        : [null, null];
+
+      if (existing) {
+        console.log(`Bot 重新加入群組 ${existing.name}（${chatId}）`);
+        return await storage.updateGroup(existing.id, {
+          status: (existing.status === "inactive" ? "pending" : existing.status) as GroupStatus,
+          memberCount: memberCount ?? existing.memberCount,
+          joinedAt: now,
+          leftAt: null,
+          unreachable: false,
+          notMemberFailures: 0,
+          unreachableAt: null,
+        });
+      }
+
+      console.log(`Bot 加入新群組 ${summary?.groupName || chatId}，等待核准`);
+      return await storage.createGroup({
+        name: summary?.groupName || defaultGroupName(event.source, chatId),
+        lineId: chatId,
+        deliveryPolicy: "strict",
+        timezone: DEFAULT_TIMEZONE,
+        variables: {},
+        status: "pending",
+        memberCount,
+        joinedAt: now,
+        leftAt: null,
+      });
+    }
+
+    case "leave": {
+      if (!existing) return undefined;
+      console.log(`Bot 已離開群組 ${existing.name}（${chatId}），標記為停用`);
+      return await storage.updateGroup(existing.id, { status: "inactive", leftAt: now });
+    }
+
+    case "memberJoined":
+    case "memberLeft": {
+      if (!existing) return undefined;
+      const counted = isGroup ? await lineClient.getGroupMemberCount(chatId) : null;
+      // 查詢失敗時依事件中的成員數增減
+      const changed = (event.type === "memberJoined" ? event.joined : event.left)?.members.length || 0;
+      const memberCount = counted ?? (existing.memberCount === null || existing.memberCount === undefined
+        ? null
+        : Math.max(0, existing.memberCount + (event.type === "memberJoined" ? changed : -changed)));
+      return await storage.updateGroup(existing.id, { memberCount });
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+// 群組成員傳來的文字與圖片寫入對話紀錄；只記錄已登記的群組
+// Webhook 重送的同一則訊息回傳 undefined；圖片由 downloadInboundMedia 在回應 LINE 之後下載
+export async function handleInboundMessage(
+  event: LineWebhookEvent,
+  storage: IStorage,
+  lineClient: LineClient
+): Promise<InboundMessage | undefined> {
+  const chatId = chatIdOf(event.source);
+  const message = event.message;
+  if (event.type !== "message" || !chatId || !message?.id) return undefined;
+  if (message.type !== "text" && message.type !== "image") return undefined;
+
+  const group = await storage.getGroupByLineId(chatId);
+  if (!group) return undefined;
+
+  return await storage.createInboundMessage({
+    groupId: group.id,
+    lineMessageId: message.id,
+    lineUserId: event.source?.userId ?? null,
+    type: message.type,
+    text: message.text ?? null,
+    mediaFile: null,
+    quotedMessageId: message.quotedMessageId ?? null,
+    receivedAt: new Date(event.timestamp || Date.now()).toISOString(),
+  });
+}
+
+// 下載已寫入的圖片訊息到 INBOUND_MEDIA_DIR（不公開），完成後記錄檔名
+// 下載失敗仍保留這則訊息，只是沒有圖片；外部圖片（contentProvider 為 external）不下載
+export async function downloadInboundMedia(
+  event: LineWebhookEvent,
+  inbound: InboundMessage,
+  storage: IStorage,
+  lineClient: LineClient
+): Promise<void> {
+  if (inbound.type !== "image" || event.message?.contentProvider?.type === "external") return;
+
+  const content = await lineClient.getMessageContent(inbound.lineMessageId);
+  if (!content) return;
+
+  try {
+    const mediaFile = await saveMedia(content.data, content.contentType, "original", INBOUND_MEDIA_DIR);
+    await storage.setInboundMedia(inbound.id, mediaFile);
+  } catch (err) {
+    console.error(`儲存群組訊息 ${inbound.lineMessageId} 的圖片失敗:`, err);
+  }
+}
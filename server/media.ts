@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import { join, resolve } from "path";
+import { randomUUID } from "crypto";
+import type { Request } from "express";
+import { MAX_IMAGE_BYTES, MAX_PREVIEW_BYTES } from "@shared/attachments";
+
+// 本機媒體庫：上傳的圖片存放在 MEDIA_DIR，由 Express 以 /media 路徑公開，LINE 伺服器從此網址下載
+export const MEDIA_DIR = resolve(process.env.MEDIA_DIR || "media");
+export const MEDIA_ROUTE = "/media";
+// 群組成員傳來的圖片：不放在公開的 /media 路徑下，只能透過 API 讀取
+export const INBOUND_MEDIA_DIR = resolve(process.env.INBOUND_MEDIA_DIR || "inbound-media");
+
+const extensions: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+// 上傳內容不符合 LINE 圖片限制，status 對應 HTTP 狀態碼
+export class MediaError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MediaError";
+  }
+}
+
+// 儲存上傳的圖片並回傳檔名；kind 為 preview 時套用預覽圖的 1MB 限制，dir 為存放的目錄
+export async function saveMedia(
+  data: Buffer,
+  contentType: string,
+  kind: "original" | "preview" = "original",
+  dir: string = MEDIA_DIR
+): Promise<string> {
+  const extension = extensions[contentType];
+  if (!extension) {
+    throw new MediaError("只支援 JPEG 或 PNG 圖片", 415);
+  }
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    throw new MediaError("上傳的檔案是空的");
+  }
+
+  const limit = kind === "preview" ? MAX_PREVIEW_BYTES : MAX_IMAGE_BYTES;
+  if (data.length > limit) {
+    throw new MediaError(`檔案超過 ${limit / 1024 / 1024}MB`, 413);
+  }
+
+  await fs.mkdir(dir, { recursive: true });
+  const fileName = `${randomUUID()}.${extension}`;
+  await fs.writeFile(join(dir, fileName), data);
+  return fileName;
+}
+
+// 媒體檔的公開網址：優先使用 PUBLIC_BASE_URL，否則依請求的網域（含反向代理的 https）組成
+// LINE 只接受 https 網址，本機開發時需透過 PUBLIC_BASE_URL 指定對外網址
+export function publicMediaUrl(req: Request, fileName: string): string {
+  const forwardedProto = req.get("x-forwarded-proto")?.split(",")[0].trim();
+  const base = process.env.PUBLIC_BASE_URL?.replace(/\/$/, "")
+    || `${forwardedProto || req.protocol}://${req.get("host")}`;
+  return `${base}${MEDIA_ROUTE}/${fileName}`;
+}
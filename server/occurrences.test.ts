@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import moment from "moment-timezone";
+import type { Message } from "@shared/schema";
+import { getDueOccurrences } from "./occurrences";
+
+const ZONE = "Asia/Taipei";
+
+function periodic(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 1,
+    type: "periodic",
+    recurringActive: true,
+    recurringType: "daily",
+    rrule: null,
+    scheduledTime: moment.tz("2020-01-01 09:00", ZONE).toISOString(),
+    timezone: ZONE,
+    lastSent: null,
+    until: null,
+    maxOccurrences: null,
+    occurrenceCount: 0,
+    missedRunPolicy: "send_once_late",
+    maxLatenessMinutes: null,
+    ...overrides,
+  } as Message;
+}
+
+const due = (message: Message, now: string) =>
+  getDueOccurrences(message, moment.tz(now, ZONE)).map(o => o.format("YYYY-MM-DD HH:mm"));
+
+describe("getDueOccurrences 尚未發送過的週期性訊息", () => {
+  it("不補發建立或修改之前的時間點", () => {
+    assert.deepEqual(due(periodic(), "2026-03-01 12:00"), []);
+  });
+
+  // 開始時間在六年前，從開始時間展開會先超過 500 次的上限
+  it("準時寬限時間內的時間點照常發送", () => {
+    assert.deepEqual(due(periodic(), "2026-03-01 09:03"), ["2026-03-01 09:00"]);
+  });
+
+  it("已發送過時從 lastSent 之後補發", () => {
+    const message = periodic({ lastSent: moment.tz("2026-02-27 09:00", ZONE).toISOString() });
+    assert.deepEqual(due(message, "2026-03-01 12:00"), ["2026-03-01 09:00"]);
+  });
+});
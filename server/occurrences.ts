@@ -0,0 +1,185 @@
+import moment from "moment-timezone";
+import { HolidayRule, Message, MissedRunPolicy } from "@shared/schema";
+import { MonthEndOverflow, RRule, expandRRule, parseRRule, recurringPresetRules } from "@shared/rrule";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
+import { HolidayCalendar } from "./holidays";
+
+// 排程時間點後幾分鐘內仍視為準時發送；超過即為錯過的發送（例如伺服器停機）
+export const ON_TIME_GRACE_MINUTES = 5;
+// 單次展開的發送時間點上限，避免長時間停機後一次產生過多工作
+const MAX_OCCURRENCES = 500;
+// 假日移到上一個/下一個工作日時可能跨出查詢區間，前後多展開的天數
+const HOLIDAY_WINDOW_DAYS = 31;
+
+type ScheduleFields = Pick<Message, "scheduledTime" | "recurringType" | "rrule">
+  & Partial<Pick<Message, "holidayRule" | "monthEndOverflow" | "timezone">>;
+
+// 訊息的時區，舊資料沒有設定時為台灣時間
+export function zoneOf(message: Partial<Pick<Message, "timezone">>): string {
+  return message.timezone || DEFAULT_TIMEZONE;
+}
+
+// 訊息的週期規則：有 rrule 時優先使用，否則以 recurringType 預設選項對應的規則
+export function resolveRRule(message: Pick<Message, "rrule" | "recurringType"> & Partial<Pick<Message, "timezone">>): RRule | null {
+  if (message.rrule) {
+    return parseRRule(message.rrule, zoneOf(message));
+  }
+  const preset = message.recurringType ? recurringPresetRules[message.recurringType] : undefined;
+  return preset ? parseRRule(preset, zoneOf(message)) : null;
+}
+
+// 展開週期性訊息在 (after, until] 區間內的所有發送時間點（訊息時區），以 scheduledTime 為規則的開始時間
+// 時分以當地時間計算，夏令時間切換前後都在同一個當地時間發送
+// 提供假日行事曆時依訊息的 holidayRule 略過或移動落在假日的時間點
+export function expandOccurrences(
+  message: ScheduleFields,
+  after: moment.Moment | null,
+  until: moment.Moment,
+  limit: number = MAX_OCCURRENCES,
+  calendar?: HolidayCalendar
+): moment.Moment[] {
+  const rule = resolveRRule(message);
+  if (!rule || !message.scheduledTime) {
+    return [];
+  }
+
+  const zone = zoneOf(message);
+  const dtstart = moment(message.scheduledTime).tz(zone);
+  // 區間端點也換算到訊息時區，週期的起訖（當地的一天/一週/一個月）才會正確
+  const from = after ? after.clone().tz(zone) : null;
+  const through = until.clone().tz(zone);
+  const holidayRule = (message.holidayRule || "none") as HolidayRule;
+  const overflow = (message.monthEndOverflow || "clamp") as MonthEndOverflow;
+
+  if (!calendar || holidayRule === "none") {
+    return expandRRule(rule, dtstart, from, through, limit, overflow);
+  }
+
+  const raw = expandRRule(
+    rule,
+    dtstart,
+    from ? from.clone().subtract(HOLIDAY_WINDOW_DAYS, "days") : null,
+    through.clone().add(HOLIDAY_WINDOW_DAYS, "days"),
+    limit + HOLIDAY_WINDOW_DAYS * 2,
+    overflow
+  );
+
+  return calendar
+    .apply(raw, holidayRule)
+    .filter(o => (!from || o.isAfter(from)) && !o.isAfter(through))
+    .slice(0, limit);
+}
+
+type EndConditions = Pick<Message, "until" | "maxOccurrences" | "occurrenceCount" | "timezone">;
+
+// 還可以發送幾次，沒有設定 maxOccurrences 時回傳 null
+export function remainingOccurrences(message: Partial<EndConditions>): number | null {
+  if (!message.maxOccurrences) return null;
+  return Math.max(0, message.maxOccurrences - (message.occurrenceCount ?? 0));
+}
+
+// 展開的終點：有 until 時不超過 until，否則以十年為界（規則本身的 UNTIL/COUNT 會提早結束）
+function horizonOf(message: Partial<EndConditions>, now: moment.Moment): moment.Moment {
+  return message.until ? moment(message.until).tz(zoneOf(message)) : now.clone().add(10, "years");
+}
+
+// 預覽接下來的 N 次發送時間點
+export function previewOccurrences(
+  message: ScheduleFields & Partial<EndConditions>,
+  count: number,
+  calendar?: HolidayCalendar,
+  now: moment.Moment = moment().tz(zoneOf(message))
+): moment.Moment[] {
+  const remaining = remainingOccurrences(message);
+  const limit = remaining === null ? count : Math.min(count, remaining);
+  if (limit <= 0) return [];
+  return expandOccurrences(message, now, horizonOf(message, now), limit, calendar);
+}
+
+// 週期性訊息是否已沒有之後的發送：已達 maxOccurrences、已過 until，或規則本身已結束
+export function isScheduleExhausted(message: Message, now: moment.Moment, calendar?: HolidayCalendar): boolean {
+  if (message.type !== "periodic" || !message.recurringActive) return false;
+
+  const remaining = remainingOccurrences(message);
+  if (remaining !== null && remaining <= 0) return true;
+
+  return expandOccurrences(message, now, horizonOf(message, now), 1, calendar).length === 0;
+}
+
+// 每次發送可接受的時段長度（毫秒）：endTime 與 scheduledTime 的時間差
+// endTime 早於開始時間視為跨過午夜；沒有設定或與開始時間相同時不限制
+export function sendWindowMs(message: Pick<Message, "scheduledTime" | "endTime">): number | null {
+  if (!message.scheduledTime || !message.endTime) return null;
+
+  let windowMs = moment(message.endTime).diff(moment(message.scheduledTime));
+  if (windowMs < 0) windowMs += 24 * 60 * 60 * 1000;
+  return windowMs > 0 ? windowMs : null;
+}
+
+// 依錯過發送規則，從到期的發送時間點中挑出要補發的：
+// - skip：只發送準時的，錯過的一律略過
+// - send_once_late：錯過多次時只補發最近一次
+// - send_all_missed：每一次錯過的都補發
+// maxLatenessMinutes 有設定時，延遲超過此分鐘數的時間點不補發
+export function applyMissedRunPolicy(
+  occurrences: moment.Moment[],
+  now: moment.Moment,
+  policy: MissedRunPolicy,
+  maxLatenessMinutes?: number | null
+): moment.Moment[] {
+  const lateness = (occurrence: moment.Moment) => now.diff(occurrence, "minutes", true);
+
+  const onTime = occurrences.filter(o => lateness(o) <= ON_TIME_GRACE_MINUTES);
+  const missed = occurrences
+    .filter(o => lateness(o) > ON_TIME_GRACE_MINUTES)
+    .filter(o => maxLatenessMinutes == null || lateness(o) <= maxLatenessMinutes);
+
+  switch (policy) {
+    case "skip":
+      return onTime;
+    case "send_all_missed":
+      return [...missed, ...onTime];
+    case "send_once_late":
+    default:
+      // 已有準時的發送時不再補發
+      if (onTime.length > 0) return onTime;
+      return missed.length > 0 ? [missed[missed.length - 1]] : [];
+  }
+}
+
+// 計算訊息目前到期、應排入佇列的發送時間點（訊息時區）
+// 單次訊息：到達或超過排程時間即發送；週期性訊息：從 lastSent 之後展開並套用錯過發送規則
+export function getDueOccurrences(message: Message, now: moment.Moment, calendar?: HolidayCalendar): moment.Moment[] {
+  if (!message.scheduledTime) {
+    return [];
+  }
+
+  const zone = zoneOf(message);
+  const scheduledTime = moment(message.scheduledTime).tz(zone);
+
+  // 單次訊息（或已停用的週期性訊息）
+  if (message.type !== "periodic" || !message.recurringActive) {
+    return now.valueOf() >= scheduledTime.valueOf() ? [scheduledTime] : [];
+  }
+
+  // 尚未發送過時從現在（扣掉準時發送的寬限時間）開始計算：建立或修改之前的時間點不算錯過，
+  // 也避免從很久以前的 scheduledTime 展開時超過 MAX_OCCURRENCES 而算不到之後的發送
+  const after = message.lastSent
+    ? moment(message.lastSent).tz(zone)
+    : now.clone().tz(zone).subtract(ON_TIME_GRACE_MINUTES, "minutes");
+
+  // 超過 until 的時間點不發送
+  const through = message.until ? moment.min(now, moment(message.until).tz(zone)) : now;
+  const due = expandOccurrences(message, after, through, MAX_OCCURRENCES, calendar);
+
+  const selected = applyMissedRunPolicy(
+    due,
+    now,
+    (message.missedRunPolicy || "send_once_late") as MissedRunPolicy,
+    message.maxLatenessMinutes
+  );
+
+  // 補發時也不超過剩餘次數
+  const remaining = remainingOccurrences(message);
+  return remaining === null ? selected : selected.slice(0, remaining);
+}
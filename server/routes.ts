@@ -7,23 +7,40 @@ import {
   insertTemplateSchema,
   insertMessageSchema,
   insertSettingsSchema,
-  Group
+  insertHolidaySchema,
+  holidayRules,
+  type InsertHoliday,
+  type InsertTemplate,
+  type ConversationEntry,
+  type InboundMessage,
+  type Message
 } from "@shared/schema";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import fetch from "node-fetch";
 import moment from "moment-timezone";
-
-// 將默認時區設置為台灣時間
-moment.tz.setDefault("Asia/Taipei");
+import { LineApiClient } from "./line";
+import { MessageDispatcher, DispatchError, formatMessageContent, renderForGroup } from "./dispatcher";
+import { Scheduler } from "./scheduler";
+import { previewOccurrences, resolveRRule, zoneOf } from "./occurrences";
+import { formatRRule, monthEndOverflows, RRuleError } from "@shared/rrule";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "@shared/timezone";
+import { HolidayCalendar, HolidayImportError, parseHolidayIcs, parseHolidayJson } from "./holidays";
+import { INBOUND_MEDIA_DIR, MediaError, publicMediaUrl, saveMedia } from "./media";
+import { MAX_IMAGE_BYTES, imageContentTypes } from "@shared/attachments";
+import { validateAmount } from "@shared/currency";
+import { captureRawBody, lineSignature } from "./webhook";
+import { type LineWebhookEvent, downloadInboundMedia, handleInboundMessage, handleMembershipEvent, membershipEventTypes } from "./lineEvents";
+import { CommandRouter } from "./commands";
+import { TemplateExpressionError, TemplateRenderError, findMissingVariables, userPlaceholders } from "@shared/templateRender";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const router = express.Router();
+  const lineClient = new LineApiClient(storage);
+  const dispatcher = new MessageDispatcher(storage, lineClient);
+  const commandRouter = new CommandRouter(storage, lineClient);
   
   // LINE相關功能已移除 - 使用者使用另一個機器人處理群組ID查詢
-  
-  // 新增訊息檢查計時器 - 每分鐘檢查一次，查找需要發送的訊息
-  let messageCheckInterval: NodeJS.Timeout | null = null;
 
   // Error handling middleware for Zod validation errors
   const handleZodError = (err: unknown, res: Response) => {
@@ -35,6 +52,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(500).json({ error: "An unexpected error occurred" });
   };
 
+  // flex 格式必須附上 Flex JSON（JSON 本身的結構已由 schema 驗證）
+  const missingFlexContent = (data: { format?: string; flexContent?: string | null }) =>
+    data.format === "flex" && !data.flexContent;
+  const MISSING_FLEX_CONTENT = "Flex 格式需要提供 flexContent";
+
+  // 文字訊息沒有內容、金額與附件時不會推播任何東西
+  const emptyMessageContent = (data: { format?: string; content?: string; amount?: string | null; attachments?: unknown[] | null }) =>
+    data.format !== "flex" && !data.content?.trim() && !data.amount && !data.attachments?.length;
+  const EMPTY_MESSAGE_CONTENT = "訊息內容不能為空（沒有附件時）";
+
+  // 連結範本必須指定存在的範本，回傳錯誤訊息，通過時回傳 null
+  const linkedTemplateError = async (data: { templateLinked?: boolean; templateId?: number | null }): Promise<string | null> => {
+    if (!data.templateLinked) return null;
+    if (!data.templateId) return "連結範本需要提供 templateId";
+    return (await storage.getTemplate(data.templateId)) ? null : "連結的範本不存在";
+  };
+
+  // 內容中的範本變數必須由訊息填寫的值或每個目標群組的預設值提供，回傳缺少的變數名稱
+  // 連結範本的訊息發送時使用範本目前的內容，以範本內容檢查；content 指定時改用該內容（例如範本修改後的內容）
+  const missingVariablesOf = async (
+    data: {
+      content?: string;
+      flexContent?: string | null;
+      groupIds?: string[];
+      variables?: Record<string, string>;
+      templateLinked?: boolean;
+      templateId?: number | null;
+    },
+    content?: { content: string; flexContent?: string | null }
+  ): Promise<string[]> => {
+    const source = content
+      ?? (data.templateLinked && data.templateId ? await storage.getTemplate(data.templateId) : undefined)
+      ?? data;
+    const names = userPlaceholders(source.content, source.flexContent);
+    if (names.length === 0) return [];
+
+    const groups = await dispatcher.resolveGroups(data.groupIds || []);
+    return findMissingVariables(names, data.variables, groups.map(group => group.variables));
+  };
+
+  // 範本內容修改後，連結此範本的排程訊息中會缺少變數的訊息與缺少的變數，有的話拒絕修改
+  const linkedMessagesMissingVariables = async (templateId: number, content: { content: string; flexContent?: string | null }) => {
+    const linked = (await storage.getMessagesByTemplate(templateId)).filter(message => message.templateLinked);
+    const results = await Promise.all(linked.map(async message => ({
+      id: message.id,
+      title: message.title,
+      missing: await missingVariablesOf(message, content),
+    })));
+    return results.filter(result => result.missing.length > 0);
+  };
+  const linkedMessagesError = (broken: { title: string; missing: string[] }[]) =>
+    `連結此範本的訊息會缺少變數：${broken.map(m => `${m.title}（${m.missing.join("、")}）`).join("；")}`;
+
   // Group endpoints
   router.get("/groups", async (_req: Request, res: Response) => {
     try {
@@ -124,6 +194,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 群組的對話紀錄：我們的推播與群組成員的訊息依時間排列，新的在後；limit 為兩者各取最近幾筆
+  router.get("/groups/:id/conversation", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 200);
+
+      const group = await storage.getGroup(id);
+      if (!group) {
+        return res.status(404).json({ error: "Group not found" });
+      }
+
+      const [deliveries, inbound] = await Promise.all([
+        storage.getDeliveriesByGroup(id, limit),
+        storage.getInboundMessages(id, limit),
+      ]);
+
+      const messageIds = Array.from(new Set(deliveries.map(d => d.messageId).filter((messageId): messageId is number => !!messageId)));
+      const sentMessages = new Map(
+        (await Promise.all(messageIds.map(messageId => storage.getMessage(messageId))))
+          .filter((message): message is Message => !!message)
+          .map(message => [message.id, { id: message.id, title: message.title, content: message.content }])
+      );
+
+      const entries: ConversationEntry[] = [
+        ...deliveries.map(delivery => ({
+          direction: "outbound" as const,
+          at: delivery.attemptedAt,
+          delivery,
+          message: delivery.messageId ? sentMessages.get(delivery.messageId) : undefined,
+        })),
+        ...inbound.map(message => ({ direction: "inbound" as const, at: message.receivedAt, inbound: message })),
+      ];
+      entries.sort((a, b) => a.at.localeCompare(b.at));
+
+      res.json(entries);
+    } catch (err) {
+      console.error("Error fetching group conversation:", err);
+      res.status(500).json({ error: "Failed to fetch group conversation" });
+    }
+  });
+
+  // 群組成員傳來的圖片：存放在不公開的目錄，只能透過管理 API 以訊息 ID 讀取
+  router.get("/inbound-messages/:id/media", async (req: Request, res: Response) => {
+    try {
+      const inbound = await storage.getInboundMessage(parseInt(req.params.id));
+      if (!inbound?.mediaFile) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      res.set("Cache-Control", "private, max-age=86400");
+      res.sendFile(inbound.mediaFile, { root: INBOUND_MEDIA_DIR }, err => {
+        if (err && !res.headersSent) {
+          res.status(404).json({ error: "Media not found" });
+        }
+      });
+    } catch (err) {
+      console.error("Error fetching inbound media:", err);
+      res.status(500).json({ error: "Failed to fetch inbound media" });
+    }
+  });
+
   // Template endpoints
   router.get("/templates", async (_req: Request, res: Response) => {
     try {
@@ -138,6 +269,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   router.post("/templates", async (req: Request, res: Response) => {
     try {
       const templateData = insertTemplateSchema.parse(req.body);
+      if (missingFlexContent(templateData)) {
+        return res.status(400).json({ error: MISSING_FLEX_CONTENT });
+      }
       const template = await storage.createTemplate(templateData);
       res.status(201).json(template);
     } catch (err) {
@@ -149,6 +283,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const templateData = insertTemplateSchema.partial().parse(req.body);
+      if (missingFlexContent(templateData)) {
+        return res.status(400).json({ error: MISSING_FLEX_CONTENT });
+      }
+      const existingTemplate = await storage.getTemplate(id);
+      if (!existingTemplate) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const broken = await linkedMessagesMissingVariables(id, { ...existingTemplate, ...templateData });
+      if (broken.length > 0) {
+        return res.status(400).json({ error: linkedMessagesError(broken), messages: broken });
+      }
       const updatedTemplate = await storage.updateTemplate(id, templateData);
       
       if (!updatedTemplate) {
@@ -161,9 +306,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 範本的版本紀錄，新的版本在前；範本已刪除時仍可查詢（templateDeletedAt 為刪除時間）
+  router.get("/templates/:id/versions", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versions = await storage.getTemplateVersions(id);
+
+      if (versions.length === 0 && !(await storage.getTemplate(id))) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.json(versions);
+    } catch (err) {
+      console.error("Error fetching template versions:", err);
+      res.status(500).json({ error: "Failed to fetch template versions" });
+    }
+  });
+
+  // 還原到指定版本：以該版本的內容建立新版本，不刪除之後的版本
+  router.post("/templates/:id/versions/:version/restore", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const version = parseInt(req.params.version);
+      const snapshot = await storage.getTemplateVersion(id, version);
+
+      if (!snapshot) {
+        return res.status(404).json({ error: "Template version not found" });
+      }
+      const broken = await linkedMessagesMissingVariables(id, snapshot);
+      if (broken.length > 0) {
+        return res.status(400).json({ error: linkedMessagesError(broken), messages: broken });
+      }
+
+      const restoredTemplate = await storage.updateTemplate(id, {
+        name: snapshot.name,
+        content: snapshot.content,
+        type: snapshot.type,
+        format: snapshot.format as InsertTemplate["format"],
+        flexContent: snapshot.flexContent,
+        variables: snapshot.variables,
+      }, version);
+
+      if (!restoredTemplate) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.json(restoredTemplate);
+    } catch (err) {
+      console.error("Error restoring template version:", err);
+      res.status(500).json({ error: "Failed to restore template version" });
+    }
+  });
+
+  // 使用此範本的排程訊息，templateLinked 表示發送時使用範本最新內容
+  router.get("/templates/:id/messages", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const template = await storage.getTemplate(id);
+
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      const messages = await storage.getMessagesByTemplate(id);
+      res.json(messages);
+    } catch (err) {
+      console.error("Error fetching template messages:", err);
+      res.status(500).json({ error: "Failed to fetch template messages" });
+    }
+  });
+
+  // 刪除範本時，連結此範本的訊息改為保存範本目前內容的複本
   router.delete("/templates/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const template = await storage.getTemplate(id);
+      if (template) {
+        const detached = await storage.detachTemplateMessages(template);
+        if (detached > 0) {
+          console.log(`範本 ${template.name} 刪除前已將 ${detached} 則連結的訊息改為複本`);
+        }
+      }
       const success = await storage.deleteTemplate(id);
       
       if (!success) {
@@ -198,6 +421,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // 驗證數據
         const validated = insertMessageSchema.parse(messageData);
         console.log("Validation passed:", validated);
+        if (missingFlexContent(validated)) {
+          return res.status(400).json({ error: MISSING_FLEX_CONTENT });
+        }
+        if (emptyMessageContent(validated)) {
+          return res.status(400).json({ error: EMPTY_MESSAGE_CONTENT });
+        }
+        const amountError = validateAmount(validated.amount, validated.currency);
+        if (amountError) {
+          return res.status(400).json({ error: amountError });
+        }
+        const templateError = await linkedTemplateError(validated);
+        if (templateError) {
+          return res.status(400).json({ error: templateError });
+        }
+        const missingVariables = await missingVariablesOf(validated);
+        if (missingVariables.length > 0) {
+          return res.status(400).json({ error: new TemplateRenderError(missingVariables).message });
+        }
         
         // 創建消息
         const message = await storage.createMessage(validated);
@@ -282,9 +523,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // 手動驗證Zod schema，使用partial()允許部分更新
       try {
-        // 使用partial()允許只更新部分字段
-        const validated = insertMessageSchema.partial().parse(messageData);
+        // 使用partial()允許只更新部分字段；lastSent 只由排程器更新，編輯時不接受
+        const validated = insertMessageSchema.omit({ lastSent: true }).partial().parse(messageData);
         console.log("Validation passed:", validated);
+        if (missingFlexContent(validated)) {
+          return res.status(400).json({ error: MISSING_FLEX_CONTENT });
+        }
+        const existingMessage = await storage.getMessage(id);
+        if (!existingMessage) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const merged = { ...existingMessage, ...validated };
+        if (emptyMessageContent(merged)) {
+          return res.status(400).json({ error: EMPTY_MESSAGE_CONTENT });
+        }
+        const amountError = validateAmount(merged.amount, merged.currency);
+        if (amountError) {
+          return res.status(400).json({ error: amountError });
+        }
+        const templateError = await linkedTemplateError(merged);
+        if (templateError) {
+          return res.status(400).json({ error: templateError });
+        }
+        const missingVariables = await missingVariablesOf(merged);
+        if (missingVariables.length > 0) {
+          return res.status(400).json({ error: new TemplateRenderError(missingVariables).message });
+        }
         const updatedMessage = await storage.updateMessage(id, validated);
         
         if (!updatedMessage) {
@@ -323,6 +587,263 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 歷史紀錄 - 已封存的訊息，支援日期區間、群組與狀態篩選
+  const historyQuerySchema = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from 格式須為 YYYY-MM-DD").optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to 格式須為 YYYY-MM-DD").optional(),
+    groupId: z.string().optional(),
+    status: z.enum(["sent", "partial", "failed", "expired"]).optional(),
+  });
+
+  router.get("/history", async (req: Request, res: Response) => {
+    try {
+      const query = historyQuerySchema.parse(req.query);
+      
+      // 日期以台灣時間的整天計算
+      const history = await storage.getHistory({
+        from: query.from ? moment.tz(query.from, "Asia/Taipei").startOf("day").toISOString() : undefined,
+        to: query.to ? moment.tz(query.to, "Asia/Taipei").endOf("day").toISOString() : undefined,
+        groupId: query.groupId,
+        status: query.status,
+      });
+      
+      res.json(history);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
+  // 查詢訊息的逐群組發送紀錄
+  router.get("/messages/:id/deliveries", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const message = await storage.getMessage(id);
+      
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      
+      const deliveries = await storage.getDeliveriesByMessage(id);
+      res.json(deliveries);
+    } catch (err) {
+      console.error("Error fetching deliveries:", err);
+      res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+  });
+
+  // 預覽接下來幾次發送的實際內容：以各次的發送時間計算 {{ now | ... }} 等運算式
+  // 以第一個目標群組帶入變數值，某一次無法產生內容時回傳該次的錯誤訊息
+  router.get("/messages/:id/preview", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const storedMessage = await storage.getMessage(id);
+
+      if (!storedMessage) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const message = await dispatcher.withLinkedTemplate(storedMessage);
+      const count = Math.min(Math.max(parseInt(req.query.count as string) || 3, 1), 10);
+      const [group] = await dispatcher.resolveGroups(message.groupIds);
+      if (!group) {
+        return res.status(400).json({ error: "訊息沒有有效的目標群組" });
+      }
+
+      const calendar = message.holidayRule === "none" ? undefined : new HolidayCalendar(await storage.getHolidays());
+      const amountTemplate = await dispatcher.amountTemplate();
+      const occurrences = message.type === "periodic"
+        ? previewOccurrences(message, count, calendar)
+        : [moment(message.scheduledTime).tz(zoneOf(message))];
+
+      const previews = occurrences.map((occurrence, index) => {
+        const occurrenceAt = occurrence.toISOString();
+        try {
+          const rendered = renderForGroup(message, group, {
+            now: occurrence,
+            occurrenceNumber: (message.occurrenceCount ?? 0) + index + 1,
+          });
+          return { occurrenceAt, content: formatMessageContent(rendered, amountTemplate) };
+        } catch (err) {
+          if (err instanceof TemplateRenderError || err instanceof TemplateExpressionError) {
+            return { occurrenceAt, error: err.message };
+          }
+          throw err;
+        }
+      });
+
+      res.json({ groupName: group.name, timezone: zoneOf(message), previews });
+    } catch (err) {
+      if (err instanceof RRuleError) {
+        return res.status(400).json({ error: err.message });
+      }
+      console.error("Error previewing message:", err);
+      res.status(500).json({ error: "Failed to preview message" });
+    }
+  });
+
+  // 預覽週期規則接下來的發送時間點，與排程器使用相同的展開邏輯
+  const schedulePreviewSchema = z.object({
+    scheduledTime: z.string().refine(value => moment(value).isValid(), "scheduledTime 必須是有效的日期時間"),
+    rrule: z.string().nullable().optional(),
+    recurringType: z.enum(["daily", "weekly", "monthly", "yearly"]).nullable().optional(),
+    until: z.string().nullable().optional(),
+    maxOccurrences: z.number().int().positive().nullable().optional(),
+    holidayRule: z.enum(holidayRules).default("none"),
+    monthEndOverflow: z.enum(monthEndOverflows).default("clamp"),
+    timezone: z.string().refine(isValidTimeZone, "不支援的時區").default(DEFAULT_TIMEZONE),
+    count: z.number().int().min(1).max(50).default(5),
+  });
+
+  router.post("/schedules/preview", async (req: Request, res: Response) => {
+    try {
+      const body = schedulePreviewSchema.parse(req.body);
+
+      if (!body.rrule && !body.recurringType) {
+        return res.status(400).json({ error: "請提供 rrule 或 recurringType" });
+      }
+
+      const message = {
+        scheduledTime: body.scheduledTime,
+        rrule: body.rrule || null,
+        recurringType: body.recurringType || null,
+        until: body.until || null,
+        maxOccurrences: body.maxOccurrences || null,
+        holidayRule: body.holidayRule,
+        monthEndOverflow: body.monthEndOverflow,
+        timezone: body.timezone,
+      };
+      const rule = resolveRRule(message);
+      const calendar = body.holidayRule === "none" ? undefined : new HolidayCalendar(await storage.getHolidays());
+      const occurrences = previewOccurrences(message, body.count, calendar);
+
+      res.json({
+        rrule: rule ? formatRRule(rule) : null,
+        occurrences: occurrences.map(o => o.toISOString()),
+      });
+    } catch (err) {
+      if (err instanceof RRuleError) {
+        return res.status(400).json({ error: err.message });
+      }
+      handleZodError(err, res);
+    }
+  });
+
+  // Holiday calendar endpoints
+  router.get("/holidays", async (req: Request, res: Response) => {
+    try {
+      let from = req.query.from as string | undefined;
+      let to = req.query.to as string | undefined;
+
+      if (req.query.year) {
+        const year = parseInt(req.query.year as string);
+        if (isNaN(year)) {
+          return res.status(400).json({ error: "year 必須是數字" });
+        }
+        from = `${year}-01-01`;
+        to = `${year}-12-31`;
+      }
+
+      const holidays = await storage.getHolidays(from, to);
+      res.json(holidays);
+    } catch (err) {
+      console.error("Error fetching holidays:", err);
+      res.status(500).json({ error: "Failed to fetch holidays" });
+    }
+  });
+
+  router.post("/holidays", async (req: Request, res: Response) => {
+    try {
+      const holidayData = insertHolidaySchema.parse(req.body);
+
+      const existing = await storage.getHolidays(holidayData.date, holidayData.date);
+      if (existing.length > 0) {
+        return res.status(409).json({ error: `${holidayData.date} 已有假日設定` });
+      }
+
+      const holiday = await storage.createHoliday(holidayData as InsertHoliday);
+      res.status(201).json(holiday);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
+  // 從 ICS 或 JSON 檔案匯入，同一天已存在時以匯入的資料覆蓋
+  const holidayImportSchema = z.object({
+    format: z.enum(["ics", "json"]),
+    content: z.string().min(1, "檔案內容不能為空"),
+  });
+
+  router.post("/holidays/import", async (req: Request, res: Response) => {
+    try {
+      const { format, content } = holidayImportSchema.parse(req.body);
+      const holidays = format === "ics" ? parseHolidayIcs(content) : parseHolidayJson(content);
+
+      if (holidays.length === 0) {
+        return res.status(400).json({ error: "檔案中沒有可匯入的假日" });
+      }
+
+      const imported = await storage.upsertHolidays(holidays);
+      res.json({ imported });
+    } catch (err) {
+      if (err instanceof HolidayImportError) {
+        return res.status(400).json({ error: err.message });
+      }
+      handleZodError(err, res);
+    }
+  });
+
+  router.put("/holidays/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const holidayData = insertHolidaySchema.partial().parse(req.body);
+      const updatedHoliday = await storage.updateHoliday(id, holidayData);
+
+      if (!updatedHoliday) {
+        return res.status(404).json({ error: "Holiday not found" });
+      }
+
+      res.json(updatedHoliday);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
+  router.delete("/holidays/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteHoliday(id);
+
+      if (!success) {
+        return res.status(404).json({ error: "Holiday not found" });
+      }
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error deleting holiday:", err);
+      res.status(500).json({ error: "Failed to delete holiday" });
+    }
+  });
+
+  // Media endpoints - 請求本文為圖片原始內容，Content-Type 為 image/jpeg 或 image/png
+  // kind=preview 時為前端產生的縮圖，套用 LINE 預覽圖的大小限制
+  router.post(
+    "/media",
+    express.raw({ type: imageContentTypes, limit: MAX_IMAGE_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        const kind = req.query.kind === "preview" ? "preview" : "original";
+        const fileName = await saveMedia(req.body, req.get("content-type") || "", kind);
+        res.status(201).json({ fileName, url: publicMediaUrl(req, fileName) });
+      } catch (err) {
+        if (err instanceof MediaError) {
+          return res.status(err.status).json({ error: err.message });
+        }
+        console.error("Error saving media:", err);
+        res.status(500).json({ error: "Failed to save media" });
+      }
+    }
+  );
+
   // Settings endpoints
   router.get("/settings", async (_req: Request, res: Response) => {
     try {
@@ -367,384 +888,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // 檢查並發送所有類型的排程訊息（包括單次和週期性）
-  // 設置定時任務，每分鐘檢查一次
-  setInterval(async () => {
-    try {
-      console.log("檢查排程訊息...");
-      const messages = await storage.getMessages();
-      
-      // 篩選所有排程狀態的訊息
-      const pendingMessages = messages.filter(m => m.status === "scheduled");
-      
-      if (pendingMessages.length === 0) {
-        console.log("沒有找到待發送的排程訊息");
-        return;
-      }
-      
-      console.log(`找到 ${pendingMessages.length} 個待處理的排程訊息`);
-      
-      // 使用moment-timezone獲取台灣當前時間
-      const nowTW = moment().tz("Asia/Taipei");
-      
-      // 檢查是否有單次訊息需要發送（非週期性訊息）
-      const singleMessages = pendingMessages.filter(m => 
-        m.type !== "periodic" || !m.recurringActive);
-      
-      // 處理單次訊息
-      for (const message of singleMessages) {
-        try {
-          // 檢查此訊息是否應該發送了
-          const scheduledTime = moment(message.scheduledTime).tz("Asia/Taipei");
-          
-          console.log(`檢查單次訊息 ID: ${message.id}, 標題: ${message.title}`);
-          console.log(`排程時間: ${scheduledTime.format("YYYY/MM/DD HH:mm:ss")}`);
-          console.log(`當前時間: ${nowTW.format("YYYY/MM/DD HH:mm:ss")}`);
-          
-          // 將排程時間和當前時間轉換為毫秒級的時間戳進行比較
-          const scheduledTimestamp = scheduledTime.valueOf(); // 轉為毫秒
-          const nowTimestamp = nowTW.valueOf(); // 轉為毫秒
-          
-          // 判斷當前時間是否已經到達或超過排程時間
-          // 這樣即使錯過了精確的分鐘，也能確保訊息被發送
-          if (nowTimestamp >= scheduledTimestamp) {
-            console.log(`單次訊息 ${message.id} 已到發送時間，準備發送...`);
-            
-            // 以下是發送訊息的處理邏輯
-            // 獲取群組資訊
-            const groups = await Promise.all(
-              message.groupIds.map(async groupId => {
-                return await storage.getGroup(parseInt(groupId));
-              })
-            );
-            
-            const validGroups = groups.filter(g => g !== undefined) as Group[];
-            
-            if (validGroups.length === 0) {
-              console.error(`訊息 ${message.id} 找不到有效的群組，跳過發送`);
-              // 將訊息標記為失敗
-              await storage.updateMessage(message.id, { status: "failed" });
-              continue;
-            }
-            
-            // 獲取LINE API設定
-            const settings = await storage.getSettings();
-            if (!settings || (!settings.lineApiToken && !process.env.LINE_CHANNEL_ACCESS_TOKEN)) {
-              console.error("LINE API Token未配置，跳過發送");
-              continue;
-            }
-            
-            // 格式化訊息內容
-            let finalContent = message.content;
-            
-            // 添加幣別和金額
-            if (message.currency && message.amount) {
-              let currencySymbol = "";
-              if (message.currency === "TWD") currencySymbol = "NT$";
-              else if (message.currency === "USD") currencySymbol = "US$";
-              else if (message.currency === "AUD") currencySymbol = "AU$";
-              
-              if (!finalContent.includes(`${currencySymbol}${message.amount}`)) {
-                finalContent += `\n\n金額: ${currencySymbol}${message.amount}`;
-              }
-            }
-            
-            // 進行分段處理
-            finalContent = finalContent.replace(/。(?!\n)/g, "。\n");
-            
-            // 發送訊息到所有群組
-            let allSuccess = true;
-            for (const group of validGroups) {
-              try {
-                console.log(`嘗試發送訊息到群組: ${group.name} (ID: ${group.lineId})`);
-                
-                // 特殊處理安可淘比群組 - ID 18，實際發送但容忍失敗
-                if (group.id === 18) {
-                  console.log(`📣 安可淘比群組：嘗試實際發送訊息`);
-                  try {
-                    // 實際嘗試發送訊息，不跳過
-                    await sendLineMessage(
-                      group.lineId,
-                      finalContent,
-                      settings.lineApiToken || ""
-                    );
-                    console.log(`✅ 安可淘比群組單次訊息成功發送！`);
-                  } catch (err) {
-                    // 即使發送失敗，仍處理為成功
-                    console.log(`⚠️ 安可淘比群組訊息發送失敗，但仍標記為成功: ${err}`);
-                  }
-                  console.log(`單次訊息已處理(安可淘比特殊處理): ${group.name}`);
-                  continue; // 繼續處理下一個群組
-                }
-                
-                // 使用實際的LINE API發送訊息到其他群組
-                await sendLineMessage(
-                  group.lineId,
-                  finalContent,
-                  settings.lineApiToken || ""
-                );
-                
-                console.log(`單次訊息發送成功到群組: ${group.name}`);
-              } catch (error) {
-                // 特殊處理安可淘比群組 - ID 18的錯誤
-                if (group.id === 18) {
-                  console.log(`⚠️ 安可淘比群組發送失敗但特殊處理為成功狀態`);
-                  continue; // 不影響整體成功狀態
-                }
-                
-                console.error(`單次訊息發送到群組 ${group.name} 失敗:`, error);
-                allSuccess = false;
-              }
-            }
-            
-            // 更新訊息狀態
-            const newStatus = allSuccess ? "sent" : "partial";
-            await storage.updateMessage(message.id, { 
-              status: newStatus,
-              lastSent: nowTW.toDate().toISOString()
-            });
-            
-            // 如果是單次訊息且發送成功，刪除該訊息
-            if (message.type !== "periodic" && allSuccess) {
-              console.log(`單次訊息 ${message.id} 發送成功，現在將其刪除`);
-              await storage.deleteMessage(message.id);
-            }
-          } else {
-            console.log(`單次訊息 ${message.id} 尚未到發送時間`);
-          }
-        } catch (error) {
-          console.error(`處理單次訊息 ${message.id} 時發生錯誤:`, error);
-        }
-      }
-      
-      // 篩選出週期性且啟用的訊息
-      const recurringMessages = pendingMessages.filter(m => 
-        m.type === "periodic" && m.recurringActive);
-      
-      if (recurringMessages.length === 0) {
-        console.log("沒有找到啟用的週期性訊息");
-        return;
-      }
-      
-      console.log(`找到 ${recurringMessages.length} 個啟用的週期性訊息`);
-      
-      // 已經在上面宣告過nowTW，這裡重複使用
-      // 直接使用已宣告的nowTW變數
-      
-      for (const message of recurringMessages) {
-        try {
-          // 使用moment-timezone轉換時間
-          // 確保排程時間必須存在
-          if (!message.scheduledTime) {
-            console.error(`錯誤：週期性訊息 ${message.id} 的排程時間未設置`);
-            continue;
-          }
-          
-          // 如果沒有最後發送時間，則設置為系統初始化時間
-          const lastSentTW = message.lastSent 
-            ? moment(message.lastSent).tz("Asia/Taipei") 
-            : moment(message.scheduledTime).tz("Asia/Taipei");
-            
-          const scheduledTimeTW = moment(message.scheduledTime).tz("Asia/Taipei");
-          
-          // 檢查是否應該發送（根據週期性類型判斷）
-          let shouldSend = false;
-          
-          // 從排程時間獲取台灣時間的小時和分鐘，作為每天發送的時間點
-          const scheduledHour = scheduledTimeTW.hour();
-          const scheduledMinute = scheduledTimeTW.minute();
-          
-          // 當前台灣時間的小時和分鐘
-          const currentHour = nowTW.hour();
-          const currentMinute = nowTW.minute();
-          
-          console.log(`檢查週期性訊息 ID: ${message.id}, 標題: ${message.title}`);
-          console.log(`上次發送時間: ${lastSentTW.format("YYYY/MM/DD HH:mm:ss")}`);
-          console.log(`排程時間: ${scheduledTimeTW.format("YYYY/MM/DD HH:mm:ss")}, ${scheduledHour}:${scheduledMinute}`);
-          console.log(`當前時間: ${nowTW.format("YYYY/MM/DD HH:mm:ss")}, ${currentHour}:${currentMinute}`);
-          console.log(`週期類型: ${message.recurringType}`);
-          
-          // 使用moment-timezone處理週期性判斷
-          // 將時間轉換為分鐘進行比較，例如 14:30 轉為 14*60+30=870分鐘
-          const currentTotalMinutes = currentHour * 60 + currentMinute;
-          const scheduledTotalMinutes = scheduledHour * 60 + scheduledMinute;
-          
-          switch (message.recurringType) {
-            case "daily":
-              // 如果當前時間達到或超過設定時間，且上次發送不是今天
-              
-              if (currentTotalMinutes >= scheduledTotalMinutes) { // 只要達到或超過設定時間就發送
-                  
-                // 檢查是否已經在今天發送過
-                const isSameDay = lastSentTW.isSame(nowTW, 'day');
-                if (!isSameDay) {
-                  shouldSend = true;
-                  console.log(`每日訊息精確到發送時間，準備發送: ${message.title}`);
-                } else {
-                  console.log(`每日訊息今天已發送過: ${message.title}`);
-                }
-              }
-              break;
-              
-            case "weekly":
-              // 如果當前時間達到或超過設定時間，且是同一個星期幾，且上次發送不是本週
-              // 繼續使用前面定義的時間分鐘比較方法
-              if (currentTotalMinutes >= scheduledTotalMinutes &&
-                  nowTW.day() === scheduledTimeTW.day()) { // 同一個星期幾
-                  
-                // 檢查是否已經在本週發送過
-                const isSameWeek = lastSentTW.isSame(nowTW, 'week');
-                if (!isSameWeek) {
-                  shouldSend = true;
-                  console.log(`每週訊息精確到發送時間，準備發送: ${message.title}`);
-                } else {
-                  console.log(`每週訊息本週已發送過: ${message.title}`);
-                }
-              }
-              break;
-              
-            case "monthly":
-              // 如果當前時間達到或超過設定時間，且是同一個月份日期，且上次發送不是本月
-              // 繼續使用前面定義的時間分鐘比較方法
-              if (currentTotalMinutes >= scheduledTotalMinutes &&
-                  nowTW.date() === scheduledTimeTW.date()) { // 同一個月份日期
-                  
-                // 檢查是否已經在本月發送過
-                const isSameMonth = lastSentTW.isSame(nowTW, 'month');
-                if (!isSameMonth) {
-                  shouldSend = true;
-                  console.log(`每月訊息精確到發送時間，準備發送: ${message.title}`);
-                } else {
-                  console.log(`每月訊息本月已發送過: ${message.title}`);
-                }
-              }
-              break;
-              
-            case "yearly":
-              // 如果當前時間達到或超過設定時間，且是同一個月份和日期，且上次發送不是今年
-              // 繼續使用前面定義的時間分鐘比較方法
-              if (currentTotalMinutes >= scheduledTotalMinutes &&
-                  nowTW.date() === scheduledTimeTW.date() && 
-                  nowTW.month() === scheduledTimeTW.month()) { // 同一個月份和日期
-                  
-                // 檢查是否已經在今年發送過
-                const isSameYear = lastSentTW.isSame(nowTW, 'year');
-                if (!isSameYear) {
-                  shouldSend = true;
-                  console.log(`每年訊息精確到發送時間，準備發送: ${message.title}`);
-                } else {
-                  console.log(`每年訊息今年已發送過: ${message.title}`);
-                }
-              }
-              break;
-          }
-          
-          // 如果應該發送，執行發送邏輯
-          if (shouldSend) {
-            console.log(`正在發送週期性訊息 ID: ${message.id}, 標題: ${message.title}`);
-            
-            // 獲取所有群組
-            const groups = await Promise.all(
-              message.groupIds.map(async (groupId) => {
-                return await storage.getGroup(parseInt(groupId));
-              })
-            );
-            
-            const validGroups = groups.filter(g => g !== undefined) as Group[];
-            
-            if (validGroups.length === 0) {
-              console.error("找不到有效的群組，跳過發送");
-              continue;
-            }
-            
-            // 格式化訊息內容
-            let finalContent = message.content;
-            
-            if (message.currency && message.amount) {
-              let currencySymbol = "";
-              if (message.currency === "TWD") currencySymbol = "NT$";
-              else if (message.currency === "USD") currencySymbol = "US$";
-              else if (message.currency === "AUD") currencySymbol = "AU$";
-              
-              if (!finalContent.includes(`${currencySymbol}${message.amount}`)) {
-                finalContent += `\n\n金額: ${currencySymbol}${message.amount}`;
-              }
-            }
-            
-            // 進行分段處理
-            finalContent = finalContent.replace(/。(?!\n)/g, "。\n");
-            
-            // 獲取LINE API設定
-            const settings = await storage.getSettings();
-            
-            if (!settings || (!settings.lineApiToken && !process.env.LINE_CHANNEL_ACCESS_TOKEN)) {
-              console.error("LINE API Token未配置，跳過發送");
-              continue;
-            }
-            
-            // 發送訊息到所有群組
-            let allSuccess = true;
-            for (const group of validGroups) {
-              try {
-                console.log(`嘗試發送週期性訊息到群組: ${group.name} (ID: ${group.lineId})`);
-                console.log(`使用的訊息內容: ${finalContent}`);
-                
-                // 特殊處理安可淘比群組 - ID 18，實際發送但容忍失敗
-                if (group.id === 18) {
-                  console.log(`📣 安可淘比群組：嘗試實際發送週期性訊息`);
-                  try {
-                    // 實際嘗試發送訊息，不跳過
-                    await sendLineMessage(
-                      group.lineId,
-                      finalContent,
-                      settings.lineApiToken || ""
-                    );
-                    console.log(`✅ 安可淘比群組週期性訊息成功發送！`);
-                  } catch (err) {
-                    // 即使發送失敗，仍處理為成功
-                    console.log(`⚠️ 安可淘比群組週期性訊息發送失敗，但仍標記為成功: ${err}`);
-                  }
-                  console.log(`週期性訊息已處理(安可淘比特殊處理): ${group.name}`);
-                  continue; // 繼續處理下一個群組
-                }
-                
-                // 使用實際的LINE API發送訊息到其他群組
-                await sendLineMessage(
-                  group.lineId,
-                  finalContent,
-                  settings.lineApiToken || ""
-                );
-                
-                console.log(`週期性訊息發送成功到群組: ${group.name}`);
-              } catch (error) {
-                // 特殊處理安可淘比群組 - ID 18的錯誤
-                if (group.id === 18) {
-                  console.log(`⚠️ 安可淘比群組發送失敗但特殊處理為成功狀態`);
-                  continue; // 不影響整體成功狀態
-                }
-                
-                console.error(`週期性訊息發送到群組 ${group.name} 失敗:`, error);
-                allSuccess = false;
-              }
-            }
-            
-            // 更新訊息狀態和最後發送時間
-            const newStatus = "scheduled"; // 週期性訊息保持排程狀態
-            await storage.updateMessage(message.id, { 
-              status: newStatus,
-              lastSent: nowTW.toDate().toISOString() // 使用moment的台灣時間
-            });
-            
-            console.log(`週期性訊息 ID: ${message.id} 已處理完畢，結果: ${allSuccess ? '成功' : '部分失敗'}`);
-          }
-        } catch (error) {
-          console.error(`處理週期性訊息 ID: ${message.id} 時發生錯誤:`, error);
-        }
-      }
-    } catch (error) {
-      console.error("檢查週期性訊息時發生錯誤:", error);
-    }
-  }, 1 * 60 * 1000); // 1分鐘檢查一次
+  // 排程發送：到期的訊息排入資料庫佇列，由 worker 領取發送
+  const scheduler = new Scheduler(storage, dispatcher);
+  scheduler.start();
   
   // 輔助函數：使用moment-timezone格式化台灣時間（GMT+8）
   function formatTaiwanTime(date: Date): string {
@@ -762,156 +908,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return moment(date).tz("Asia/Taipei").toDate();
   }
 
-  // Helper function to send LINE messages
-  async function sendLineMessage(
-    lineGroupId: string, 
-    content: string, 
-    lineApiToken?: string
-  ) {
-    try {
-      // 使用原始的push API
-      const LINE_API_URL = "https://api.line.me/v2/bot/message/push"; 
-      console.log(`發送訊息到LINE API的URL: ${LINE_API_URL}`);
-      
-      // 優先使用環境變量中的ACCESS TOKEN，如果沒有則使用傳入的token
-      const token = process.env.LINE_CHANNEL_ACCESS_TOKEN || lineApiToken;
-      
-      if (!token) {
-        throw new Error("LINE Channel Access Token not found");
-      }
-      
-      console.log(`實際發送Line訊息：群組ID=${lineGroupId}，Token長度=${token.length}字元，內容長度=${content.length}字元`);
-      
-      // 檢查LINE群組ID是否有效
-      if (!lineGroupId || lineGroupId.trim() === "") {
-        throw new Error("Invalid LINE Group ID - Group ID is empty");
-      }
-      
-      // 檢查GROUP ID格式，LINE群組ID通常以C開頭並且長度約為33個字元
-      if (!lineGroupId.startsWith("C") || lineGroupId.length < 20) {
-        console.warn(`Suspicious LINE Group ID: ${lineGroupId} - format may be invalid`);
-      }
-      
-      // 增加重試機制
-      const MAX_RETRIES = 2;
-      let retryCount = 0;
-      let lastError = null;
-      
-      while (retryCount <= MAX_RETRIES) {
-        try {
-          // 修改為最新的LINE API規範格式
-          // 使用原始的push API格式
-          const requestBody = {
-            to: lineGroupId,
-            messages: [
-              {
-                type: "text",
-                text: content
-              }
-            ]
-          };
-          console.log(`第${retryCount + 1}次嘗試 - 使用Push訊息API`);
-          
-          console.log("發送LINE訊息requestBody:", JSON.stringify(requestBody, null, 2));
-          
-          const response = await fetch(LINE_API_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${token}`
-            },
-            body: JSON.stringify(requestBody)
-          });
-          
-          // 不論是否成功都獲取響應
-          let resultText = '';
-          try {
-            resultText = await response.text();
-            console.log(`LINE API原始回應: ${resultText}`);
-          } catch (e) {
-            console.error("無法讀取回應內容:", e);
-          }
-          
-          // 檢查回應是否為HTML格式（通常是錯誤頁面）
-          if (resultText.trim().startsWith('<!DOCTYPE') || resultText.trim().startsWith('<html')) {
-            console.error("收到HTML回應而非JSON:", resultText.substring(0, 200) + "...");
-            throw new Error("LINE API 返回了HTML頁面而非JSON，可能是TOKEN無效或API伺服器問題");
-          }
-          
-          let result;
-          try {
-            if (resultText.trim()) {
-              result = JSON.parse(resultText);
-            } else {
-              // 空回應處理
-              result = { success: true, note: "Empty response from LINE API (this is sometimes normal)" };
-            }
-          } catch (e) {
-            console.error("無法解析JSON回應:", e);
-            console.error("原始文本:", resultText);
-            result = { raw: resultText };
-            // 不拋出錯誤，繼續處理
-          }
-          
-          if (!response.ok) {
-            console.error(`LINE API錯誤: 狀態碼=${response.status}, 訊息=${response.statusText}`);
-            console.error("LINE API錯誤詳情:", result);
-            
-            // 檢查是否為配額限制錯誤
-            if (response.status === 429) {
-              console.log(`達到LINE API配額限制，等待後重試...`);
-              retryCount++;
-              if (retryCount <= MAX_RETRIES) {
-                console.log(`等待2秒後進行第${retryCount + 1}次嘗試...`);
-                await new Promise(resolve => setTimeout(resolve, 2000)); // 等待2秒後重試
-                continue;
-              }
-            }
-            
-            // 400錯誤處理 - 通常是LINE Bot未加入群組或群組ID錯誤
-            if (response.status === 400) {
-              // 如果是LINE群組/Bot權限問題
-              const errorMessage = `LINE API Error (${response.status}): ${result?.message || response.statusText || resultText}`;
-              console.error(`可能原因：1) LINE Bot未加入該群組 2) 群組ID錯誤 3) 無發送權限`);
-              console.error(`詳細錯誤信息：${JSON.stringify(result, null, 2)}`);
-              console.error(`群組ID: ${lineGroupId}`);
-              throw new Error(errorMessage);
-            }
-            
-            throw new Error(`LINE API Error (${response.status}): ${result?.message || response.statusText || resultText}`);
-          }
-          
-          return result;
-        } catch (error) {
-          console.error(`第${retryCount + 1}次嘗試發送LINE訊息失敗:`, error);
-          lastError = error;
-          
-          // 如果不是需要重試的錯誤，直接拋出
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          if (!errorMessage.includes("429") && !errorMessage.includes("配額限制")) {
-            throw error;
-          }
-          
-          retryCount++;
-          if (retryCount <= MAX_RETRIES) {
-            const waitTime = retryCount * 2000; // 累進式等待
-            console.log(`等待${waitTime/1000}秒後進行第${retryCount + 1}次嘗試...`);
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-          } else {
-            console.error(`已達最大重試次數(${MAX_RETRIES+1}次)，無法發送訊息`);
-            throw lastError;
-          }
-        }
-      }
-      
-      const errorDetails = lastError instanceof Error ? lastError.message : String(lastError);
-      throw new Error(`在重試${MAX_RETRIES}次後仍無法發送LINE訊息: ${errorDetails || "未知錯誤"}`);
-    } catch (error) {
-      console.error("Failed to send LINE message:", error);
-      throw error;
-    }
-  }
-
   // Send message to LINE
   router.post("/send-message", async (req: Request, res: Response) => {
     try {
@@ -929,205 +925,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`處理發送訊息 ID: ${message.id}, 標題: ${message.title}, 狀態: ${message.status}`);
       
-      // Get LINE API settings
-      const settings = await storage.getSettings();
-      
-      // 優先使用環境變量的TOKEN
-      const envToken = process.env.LINE_CHANNEL_ACCESS_TOKEN;
-      
-      if (!settings && !envToken) {
-        return res.status(400).json({ error: "LINE API Token is not configured" });
-      }
-      
-      // Ensure lineApiToken is not null, 優先使用環境變量
-      const lineApiToken = envToken || settings?.lineApiToken || "";
-      
-      if (!lineApiToken) {
-        return res.status(400).json({ error: "LINE API Token is not available" });
-      }
-      
-      // Get groups to send to
-      const groups = await Promise.all(
-        message.groupIds.map(async (groupId) => {
-          return await storage.getGroup(parseInt(groupId));
-        })
-      );
-      
-      const validGroups = groups.filter(g => g !== undefined) as Group[];
-      
-      if (validGroups.length === 0) {
-        return res.status(400).json({ error: "No valid groups found for this message" });
-      }
-      
-      console.log(`將訊息 ${message.id} 發送到 ${validGroups.length} 個群組:`, 
-        validGroups.map(g => `${g.name}(ID:${g.id})`).join(', '));
-      
-      // Format message content - add currency and amount if present
-      let finalContent = message.content;
-      
-      if (message.currency && message.amount) {
-        let currencySymbol = "";
-        if (message.currency === "TWD") currencySymbol = "NT$";
-        else if (message.currency === "USD") currencySymbol = "US$";
-        else if (message.currency === "AUD") currencySymbol = "AU$";
-        
-        // Add currency+amount if not already in the content
-        if (!finalContent.includes(`${currencySymbol}${message.amount}`)) {
-          finalContent += `\n\n金額: ${currencySymbol}${message.amount}`;
-        }
-      }
-      
-      // 不再添加發送時間
-      // 對訊息內容進行分段處理
-      finalContent = finalContent.replace(/。(?!\n)/g, "。\n");
-      
-      // Send message to all groups
-      const results = await Promise.all(
-        validGroups.map(async (group) => {
-          try {
-            console.log(`嘗試發送訊息到群組: ${group.name} (ID: ${group.lineId})`);
-            console.log(`使用的訊息內容: ${finalContent}`);
-            console.log(`Line API Token長度: ${lineApiToken ? lineApiToken.length : 0}`);
-            
-            // 特殊處理安可淘比群組 - ID 18 嘗試實際發送，但容忍失敗
-            if (group.id === 18) {
-              console.log(`📣 安可淘比群組特殊處理：嘗試實際發送訊息`);
-              try {
-                // 實際嘗試發送訊息
-                const result = await sendLineMessage(group.lineId, finalContent, lineApiToken);
-                console.log(`✅ 安可淘比群組訊息成功發送！`);
-                return { 
-                  groupId: group.id, 
-                  success: true, 
-                  result: result,
-                  specialHandling: true
-                };
-              } catch (err) {
-                // 即使發送失敗，仍返回成功狀態
-                console.log(`⚠️ 安可淘比群組訊息發送失敗，但仍標記為成功: ${err}`);
-                return { 
-                  groupId: group.id, 
-                  success: true, 
-                  result: { note: "安可淘比群組特殊處理：嘗試發送但失敗，仍標記為成功" },
-                  specialHandling: true
-                };
-              }
-            }
-            
-            // Using actual LINE API integration for other groups
-            const result = await sendLineMessage(
-              group.lineId, 
-              finalContent, 
-              lineApiToken
-            );
-            
-            console.log(`發送成功，API回應:`, result);
-            return { groupId: group.id, success: true, result };
-          } catch (error) {
-            console.error(`Failed to send to group ${group.name}:`, error);
-            
-            // 特殊處理安可淘比群組 - ID 18
-            if (group.id === 18) {
-              console.log(`⚠️ 安可淘比群組發送失敗但特殊處理為成功狀態`);
-              return { 
-                groupId: group.id, 
-                success: true, 
-                error: String(error),
-                result: { note: "安可淘比群組特殊處理" },
-                specialHandling: true
-              };
-            }
-            
-            return { groupId: group.id, success: false, error: String(error) };
-          }
-        })
-      );
-      
-      // Update message status based on sending results
-      const allSuccessful = results.every(r => r.success);
-      const newStatus = allSuccessful ? "sent" : "partial";
-      
-      // 處理成功發送後的邏輯
-      let response;
-      if (allSuccessful) {
-        try {
-          // 檢查是否為週期性訊息並且已啟用週期性發送
-          if (message.type === "periodic" && message.recurringActive) {
-            // 更新最後發送時間並重置狀態為排程中 (使用台灣時間)
-            const taiwanNow = moment().tz("Asia/Taipei");
-            const updatedMessage = await storage.updateMessage(message.id, {
-              lastSent: taiwanNow.toDate().toISOString(),
-              status: "scheduled" // 重置狀態，等待下次發送
-            });
-            
-            console.log(`週期性訊息 ID: ${message.id} [${message.title}] 已更新最後發送時間並保留排程`);
-            
-            response = {
-              success: true,
-              recurring: true,
-              message: updatedMessage,
-              results
-            };
-          } else {
-            // 非週期性訊息或未啟用週期，則刪除
-            const deleteResult = await storage.deleteMessage(message.id);
-            
-            console.log(`Message ${message.id} was successfully sent and deleted (result: ${deleteResult})`);
-            
-            response = { 
-              success: true, 
-              deleted: true,
-              results
-            };
-          }
-        } catch (err) {
-          console.error(`Error deleting message: ${err}`);
-          
-          // 如果刪除失敗，仍然將狀態更新為已發送
-          try {
-            const updatedMessage = await storage.updateMessage(message.id, {
-              status: "sent"
-            });
-            
-            response = { 
-              success: true, 
-              message: updatedMessage,
-              deleteError: `刪除訊息失敗: ${err}`,
-              results
-            };
-          } catch (updateErr) {
-            console.error(`Also failed to update message status: ${updateErr}`);
-            response = { 
-              success: true, 
-              error: `訊息發送成功但刪除及更新狀態均失敗: ${err}, ${updateErr}`,
-              results
-            };
-          }
-        }
-      } else {
-        // If not fully successful, just update status
-        try {
-          const updatedMessage = await storage.updateMessage(message.id, {
-            status: newStatus
-          });
-          
-          response = { 
-            success: false, 
-            message: updatedMessage,
-            results
-          };
-        } catch (err) {
-          console.error(`Error updating message status to ${newStatus}: ${err}`);
-          response = { 
-            success: false, 
-            error: `更新訊息狀態失敗: ${err}`,
-            results
-          };
-        }
-      }
+      const summary = await dispatcher.dispatch(message);
       
-      res.json(response);
+      res.json({
+        success: summary.allSuccess,
+        status: summary.status,
+        recurring: message.type === "periodic" && !!message.recurringActive,
+        message: summary.message,
+        results: summary.results
+      });
     } catch (err) {
+      if (err instanceof DispatchError) {
+        return res.status(err.status).json({ error: err.message });
+      }
       console.error("Error sending message:", err);
       res.status(500).json({ 
         error: "Failed to send message", 
@@ -1160,70 +970,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`測試發送訊息到群組: ${group.name} (${group.lineId})`);
       
-      // 不再添加時間到測試訊息內容，僅對內容進行分段處理
-      let finalContent = content;
-      // 對訊息內容進行分段處理
-      finalContent = finalContent.replace(/。(?!\n)/g, "。\n");
-      
-      console.log(`訊息內容: ${finalContent}`);
+      const result = await dispatcher.sendContent(group, content);
       
-      // 使用 LINE API 發送訊息
-      try {
-        // 獲取LINE API設定
-        const settings = await storage.getSettings();
-        const lineApiToken = process.env.LINE_CHANNEL_ACCESS_TOKEN || settings?.lineApiToken;
-        
-        if (!lineApiToken) {
-          return res.status(500).json({ 
-            success: false, 
-            error: "LINE API Token未配置" 
-          });
-        }
-        
-        // 實際發送訊息
-        const result = await sendLineMessage(group.lineId, finalContent);
-        
-        return res.json({ 
-          success: true, 
-          message: `已發送訊息到群組: ${group.name}`,
-          result,
-          group: {
-            id: group.id,
-            name: group.name,
-            lineId: group.lineId
-          }
+      if (result.skipped) {
+        return res.status(400).json({ 
+          success: false, 
+          error: result.error || `群組 ${group.name} 已停用發送` 
         });
-      } catch (sendError) {
-        console.error("發送LINE訊息時出錯:", sendError);
-        let errorMessage = String(sendError);
+      }
+      
+      if (!result.success) {
+        let errorMessage = result.error || "未知錯誤";
         
         // 檢查是否為HTML回應（通常是LINE API問題）
-        if (sendError instanceof Error && sendError.message.includes("<!DOCTYPE")) {
+        if (errorMessage.includes("<!DOCTYPE") || errorMessage.includes("HTML")) {
           errorMessage = "LINE API回傳了非預期的HTML回應，請檢查API配置及Token是否有效";
         }
         
-        // 特殊處理安可淘比群組的錯誤 - 即使API呼叫失敗，依然返回成功狀態
-        if (group.id === 18) {
-          console.log(`⚠️ 安可淘比群組發送失敗但特殊處理為成功狀態`);
-          return res.json({ 
-            success: true, 
-            message: `已處理安可淘比群組訊息（特殊處理）`,
-            result: { note: "安可淘比群組特殊處理" },
-            group: {
-              id: group.id,
-              name: group.name,
-              lineId: group.lineId
-            }
-          });
-        }
-        
         return res.status(500).json({ 
           success: false, 
           error: errorMessage,
-          details: sendError instanceof Error ? sendError.message : String(sendError)
+          details: result.error
         });
       }
+      
+      return res.json({ 
+        success: true, 
+        message: result.tolerated
+          ? `已處理${group.name}群組訊息（發送失敗但容忍）`
+          : `已發送訊息到群組: ${group.name}`,
+        result: result.result,
+        group: {
+          id: group.id,
+          name: group.name,
+          lineId: group.lineId
+        }
+      });
     } catch (error) {
+      if (error instanceof DispatchError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("測試發送失敗:", error);
       return res.status(500).json({ 
         success: false, 
@@ -1322,102 +1108,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(200).send('LINE Webhook測試端點正常運作中');
   });
   
-  // LINE webhook處理
-  router.post("/line-webhook-id-query", express.json(), async (req: Request, res: Response) => {
+  // LINE webhook處理：只處理 X-Line-Signature 驗證通過的請求
+  router.post("/line-webhook-id-query", express.json({ verify: captureRawBody }), lineSignature(storage), async (req: Request, res: Response) => {
+    // 圖片訊息在回應 200 之後才下載，避免 LINE 等待逾時
+    const mediaDownloads: { event: LineWebhookEvent; inbound: InboundMessage }[] = [];
     try {
       console.log("========== 收到LINE Webhook查詢ID事件 ==========");
-      console.log("Headers:", JSON.stringify(req.headers, null, 2));
       console.log("Body摘要:", JSON.stringify(req.body).substring(0, 1000));
       
       // 確保事件存在
       const events = req.body.events || [];
       console.log(`收到 ${events.length} 個LINE事件`);
       
-      // 檢查Token
-      const lineApiToken = process.env.LINE_CHANNEL_ACCESS_TOKEN || "";
-      console.log(`LINE Token可用: ${lineApiToken.length > 0 ? '是' : '否'}`);
-      
       // 處理所有訊息事件
       for (const event of events) {
         console.log(`處理事件類型: ${event.type}`);
         
-        // 處理所有文字訊息 (不論來源)
-        if (event.type === 'message' && event.message && event.message.type === 'text') {
-          const messageText = event.message.text;
-          console.log(`收到訊息: "${messageText}"`);
-          
-          // 來源類型
-          const sourceType = event.source ? event.source.type : 'unknown';
-          console.log(`訊息來源類型: ${sourceType}`);
-          
-          // 處理所有來源的ID查詢
-          if (messageText === '查群組ID' || messageText.includes('查群組ID')) {
-            let replyId = '';
-            let sourceName = '';
-            
-            // 根據來源類型獲取ID
-            if (sourceType === 'group' && event.source.groupId) {
-              replyId = event.source.groupId;
-              sourceName = '群組';
-            } else if (sourceType === 'room' && event.source.roomId) {
-              replyId = event.source.roomId;
-              sourceName = '聊天室';
-            } else if (sourceType === 'user' && event.source.userId) {
-              replyId = event.source.userId;
-              sourceName = '用戶';
-            }
-            
-            // 只要有ID就嘗試回覆
-            if (replyId) {
-              console.log(`📱 收到${sourceName}ID查詢請求，ID: ${replyId}`);
-              
-              try {
-                // 嘗試使用回覆API (優先)
-                if (event.replyToken) {
-                  // 使用LINE的reply API
-                  const replyUrl = 'https://api.line.me/v2/bot/message/reply';
-                  const replyBody = {
-                    replyToken: event.replyToken,
-                    messages: [
-                      {
-                        type: "text",
-                        text: `📋 此${sourceName}的ID是: ${replyId}\n\n此ID可用於發送系統訊息。`
-                      }
-                    ]
-                  };
-                  
-                  console.log(`嘗試使用回覆API回應ID查詢...`);
-                  
-                  const replyResponse = await fetch(replyUrl, {
-                    method: "POST",
-                    headers: {
-                      "Content-Type": "application/json",
-                      "Authorization": `Bearer ${lineApiToken}`
-                    },
-                    body: JSON.stringify(replyBody)
-                  });
-                  
-                  if (replyResponse.ok) {
-                    console.log(`✅ 已使用reply API回覆ID查詢`);
-                  } else {
-                    const errorText = await replyResponse.text();
-                    console.error(`❌ reply API回覆失敗: ${replyResponse.status} - ${errorText}`);
-                    throw new Error(`Reply API失敗: ${errorText}`);
-                  }
-                } else {
-                  // 退回到使用push API
-                  await sendLineMessage(
-                    replyId, 
-                    `📋 此${sourceName}的ID是: ${replyId}\n\n此ID可用於發送系統訊息。`, 
-                    lineApiToken
-                  );
-                  console.log(`✅ 已使用push API回覆ID查詢，${sourceName}ID: ${replyId}`);
-                }
-              } catch (sendError) {
-                console.error(`❌ 回覆ID查詢時出錯:`, sendError);
-              }
-            }
+        // Bot 加入/離開群組與成員進出：自動登記群組並更新狀態
+        if (membershipEventTypes.includes(event.type)) {
+          try {
+            await handleMembershipEvent(event, storage, lineClient);
+          } catch (eventError) {
+            console.error(`處理 ${event.type} 事件時出錯:`, eventError);
           }
+          continue;
+        }
+        
+        // 群組成員的文字與圖片訊息寫入對話紀錄
+        try {
+          const inbound = await handleInboundMessage(event, storage, lineClient);
+          if (inbound) mediaDownloads.push({ event, inbound });
+        } catch (inboundError) {
+          console.error("記錄群組訊息時出錯:", inboundError);
+        }
+
+        // 文字訊息：交給指令路由處理（/help、/next、查群組ID 等）
+        try {
+          await commandRouter.handle(event);
+        } catch (commandError) {
+          console.error("處理指令時出錯:", commandError);
         }
       }
       
@@ -1429,6 +1158,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // 即使出錯也返回200，否則LINE會重試
       res.status(200).send('Error processed');
     }
+
+    for (const { event, inbound } of mediaDownloads) {
+      try {
+        await downloadInboundMedia(event, inbound, storage, lineClient);
+      } catch (downloadError) {
+        console.error("下載群組圖片時出錯:", downloadError);
+      }
+    }
   });
   
   // 最後設置API路由
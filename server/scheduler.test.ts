@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Group, Message, SendJob } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { LineClient, LineMessage } from "./line";
+import { MessageDispatcher } from "./dispatcher";
+import { LOCK_TIMEOUT_MS, Scheduler } from "./scheduler";
+
+const MINUTE = 60 * 1000;
+
+// 以可控制的時鐘模擬 send_jobs 的領取與鎖定：lockedUntil 已過的 running 工作可被其他程序重新領取
+function fakeQueue(job: SendJob, groups: Group[], message: Message) {
+  const clock = { now: Date.parse("2026-03-01T00:00:00.000Z") };
+  const groupMap = new Map(groups.map(group => [group.id, group]));
+  const messages = new Map([[message.id, { ...message }]]);
+  const iso = (ms: number) => new Date(ms).toISOString();
+
+  const storage = {
+    clock,
+    job,
+    async claimSendJobs(workerId: string, _limit: number, lockMs: number) {
+      const claimable = job.status === "pending"
+        || (job.status === "running" && job.lockedUntil! < iso(clock.now));
+      if (!claimable) return [];
+      Object.assign(job, { status: "running", lockedBy: workerId, lockedUntil: iso(clock.now + lockMs), attempts: job.attempts + 1 });
+      return [{ ...job }];
+    },
+    async renewSendJobLock(id: number, workerId: string, lockMs: number) {
+      if (id !== job.id || job.lockedBy !== workerId || job.status !== "running") return undefined;
+      job.lockedUntil = iso(clock.now + lockMs);
+      return { ...job };
+    },
+    async completeSendJob(id: number, workerId: string) {
+      if (id !== job.id || job.lockedBy !== workerId) return undefined;
+      Object.assign(job, { status: "done", lockedUntil: null });
+      return { ...job };
+    },
+    async failSendJob() {
+      return undefined;
+    },
+    async getMessage(id: number) {
+      return messages.get(id);
+    },
+    async updateMessage(id: number, changes: Partial<Message>) {
+      const updated = { ...messages.get(id)!, ...changes } as Message;
+      messages.set(id, updated);
+      return updated;
+    },
+    async getGroup(id: number) {
+      return groupMap.get(id);
+    },
+    async getSettings() {
+      return undefined;
+    },
+  };
+  return storage;
+}
+
+// 每次推播花費 4 分鐘，onPush 在推播時執行（模擬另一個程序同時領取）
+function slowLineClient(clock: { now: number }, onPush: (pushCount: number) => Promise<void>) {
+  const pushes: string[] = [];
+  const client: LineClient = {
+    async isConfigured() {
+      return true;
+    },
+    async pushMessage(to: string, _content: string | LineMessage | LineMessage[]) {
+      clock.now += 4 * MINUTE;
+      pushes.push(to);
+      await onPush(pushes.length);
+      return {};
+    },
+    async replyMessage() {},
+    async getGroupSummary() {
+      return null;
+    },
+    async getGroupMemberCount() {
+      return null;
+    },
+    async getMessageContent() {
+      return null;
+    },
+  };
+  return { client, pushes };
+}
+
+function group(id: number): Group {
+  return {
+    id,
+    name: `群組${id}`,
+    lineId: `C${String(id).padStart(32, "0")}`,
+    deliveryPolicy: "strict",
+    timezone: "Asia/Taipei",
+    variables: {},
+    status: "active",
+    memberCount: null,
+    joinedAt: null,
+    leftAt: null,
+    unreachable: false,
+    notMemberFailures: 0,
+    unreachableAt: null,
+  };
+}
+
+describe("Scheduler 佇列工作的鎖定", () => {
+  it("發送到多個群組超過鎖定時間時，其他程序在途中無法重新領取", async () => {
+    assert.ok(3 * 4 * MINUTE > LOCK_TIMEOUT_MS);
+
+    const groups = [group(1), group(2), group(3)];
+    const message = {
+      id: 1,
+      title: "會議提醒",
+      type: "single",
+      content: "明天下午兩點開會",
+      format: "text",
+      status: "scheduled",
+      scheduledTime: "2026-03-01T00:00:00.000Z",
+      groupIds: ["1", "2", "3"],
+      archived: false,
+      variables: {},
+      attachments: [],
+    } as unknown as Message;
+    const job = {
+      id: 7,
+      messageId: 1,
+      occurrenceAt: "2026-03-01T00:00:00.000Z",
+      status: "pending",
+      runAt: "2026-03-01T00:00:00.000Z",
+      expiresAt: null,
+      lockedBy: null,
+      lockedUntil: null,
+      attempts: 0,
+      lastError: null,
+      createdAt: "2026-03-01T00:00:00.000Z",
+      completedAt: null,
+    } as SendJob;
+
+    const storage = fakeQueue(job, groups, message);
+    const secondClaims: SendJob[][] = [];
+    const line = slowLineClient(storage.clock, async () => {
+      secondClaims.push(await storage.claimSendJobs("other-worker", 10, LOCK_TIMEOUT_MS));
+    });
+    const dispatcher = new MessageDispatcher(storage as unknown as IStorage, line.client);
+    const scheduler = new Scheduler(storage as unknown as IStorage, dispatcher);
+
+    await scheduler.work();
+
+    assert.deepEqual(secondClaims.map(claimed => claimed.length), [0, 0, 0]);
+    assert.deepEqual(line.pushes, groups.map(g => g.lineId));
+    assert.equal(storage.job.status, "done");
+    assert.equal(storage.job.attempts, 1);
+  });
+});
@@ -0,0 +1,236 @@
+import os from "os";
+import moment from "moment-timezone";
+import { Message, SendJob } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { MessageDispatcher, DispatchError } from "./dispatcher";
+import { getDueOccurrences, isScheduleExhausted, sendWindowMs } from "./occurrences";
+import { HolidayCalendar } from "./holidays";
+
+// 排入佇列的間隔：每分鐘檢查一次哪些訊息到了發送時間
+const PLAN_INTERVAL_MS = 60 * 1000;
+// 領取佇列工作的間隔
+const WORK_INTERVAL_MS = 10 * 1000;
+// 每次最多領取的工作數
+const CLAIM_BATCH_SIZE = 10;
+// 領取後的鎖定時間，超過仍未完成視為程序中斷，由其他程序接手
+// 開始執行與每發送完一個群組時都會延長，發送到很多群組時不會在途中被接手
+export const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// 發送前置條件不成立（例如未設定Token）時的重試次數與間隔
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 60 * 1000;
+// 啟用隨機分散時，只在發送時段的前 80% 內挑選發送時間，保留重試的空間
+const JITTER_SPREAD = 0.8;
+
+// 佇列工作的鎖已逾時並被其他程序重新領取，由該程序繼續處理
+class SendJobLockLostError extends Error {
+  constructor(jobId: number) {
+    super(`佇列工作 ${jobId} 已被其他程序接手`);
+    this.name = "SendJobLockLostError";
+  }
+}
+
+// 排程器：planner 把到期的發送時間點排入 send_jobs，worker 從佇列領取並發送
+// 佇列存在資料庫中，同時執行多個伺服器程序時每次發送仍只會執行一次
+export class Scheduler {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private planTimer: NodeJS.Timeout | null = null;
+  private workTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+
+  constructor(private storage: IStorage, private dispatcher: MessageDispatcher) {}
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    console.log(`排程器啟動，worker: ${this.workerId}`);
+    this.schedulePlan(0);
+    this.scheduleWork(0);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.planTimer) clearTimeout(this.planTimer);
+    if (this.workTimer) clearTimeout(this.workTimer);
+    this.planTimer = null;
+    this.workTimer = null;
+  }
+
+  // 以 setTimeout 串接，上一輪完成後才排下一輪，避免處理較久時重疊執行
+  private schedulePlan(delay: number) {
+    if (this.stopped) return;
+    this.planTimer = setTimeout(async () => {
+      await this.plan();
+      this.schedulePlan(PLAN_INTERVAL_MS);
+    }, delay);
+  }
+
+  private scheduleWork(delay: number) {
+    if (this.stopped) return;
+    this.workTimer = setTimeout(async () => {
+      await this.work();
+      this.scheduleWork(WORK_INTERVAL_MS);
+    }, delay);
+  }
+
+  // 找出到期的排程訊息並排入佇列
+  async plan() {
+    try {
+      const messages = await this.storage.getMessages();
+      const pendingMessages = messages.filter(m => m.status === "scheduled");
+
+      if (pendingMessages.length === 0) {
+        return;
+      }
+
+      const nowTW = moment().tz("Asia/Taipei");
+      const calendar = new HolidayCalendar(await this.storage.getHolidays());
+
+      for (const message of pendingMessages) {
+        try {
+          const occurrences = getDueOccurrences(message, nowTW, calendar);
+
+          // 沒有到期的發送且之後也不會再發送（例如已過結束日期）時，標記為完成
+          if (occurrences.length === 0 && isScheduleExhausted(message, nowTW, calendar)) {
+            console.log(`週期性訊息 ${message.id} (${message.title}) 已過結束條件，標記為完成`);
+            await this.storage.updateMessage(message.id, { status: "completed" });
+            continue;
+          }
+
+          const windowMs = sendWindowMs(message);
+
+          for (const occurrence of occurrences) {
+            // 同一次發送只會排入一次，之後重新計算的隨機時間不會覆蓋已排入的工作
+            const runAt = windowMs && message.windowJitter
+              ? moment.max(nowTW, occurrence.clone().add(Math.floor(Math.random() * windowMs * JITTER_SPREAD), "ms"))
+              : nowTW;
+
+            const job = await this.storage.enqueueSendJob({
+              messageId: message.id,
+              occurrenceAt: occurrence.toISOString(),
+              runAt: runAt.toISOString(),
+              expiresAt: windowMs ? occurrence.clone().add(windowMs, "ms").toISOString() : null,
+            });
+
+            if (job) {
+              console.log(`訊息 ${message.id} (${message.title}) 已排入發送佇列，發送時間點: ${occurrence.format("YYYY/MM/DD HH:mm")}`);
+            }
+          }
+        } catch (error) {
+          console.error(`排入訊息 ${message.id} 時發生錯誤:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("檢查排程訊息時發生錯誤:", error);
+    }
+  }
+
+  // 領取並執行佇列中的工作
+  async work() {
+    try {
+      const jobs = await this.storage.claimSendJobs(this.workerId, CLAIM_BATCH_SIZE, LOCK_TIMEOUT_MS);
+
+      // 逐一處理，與逐群組發送相同，避免觸發LINE API配額限制
+      for (const job of jobs) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      console.error("處理發送佇列時發生錯誤:", error);
+    }
+  }
+
+  private async runJob(job: SendJob) {
+    try {
+      // 同一批領取的工作逐一執行，輪到時先延長鎖定時間
+      await this.renewLock(job);
+      const message = await this.storage.getMessage(job.messageId);
+
+      // 排入佇列後訊息可能被刪除、停用或手動發送
+      if (!message || message.archived || message.status !== "scheduled") {
+        console.log(`佇列工作 ${job.id}: 訊息 ${job.messageId} 已不在排程中，略過`);
+        await this.storage.completeSendJob(job.id, this.workerId);
+        return;
+      }
+
+      // 停機、佇列積壓或重試延後導致超過發送時段時不再發送
+      if (job.expiresAt && Date.now() > new Date(job.expiresAt).getTime()) {
+        await this.expireJob(job, message);
+        return;
+      }
+
+      console.log(`佇列工作 ${job.id}: 發送訊息 ${message.id} (${message.title})，第${job.attempts}次嘗試`);
+      await this.dispatcher.dispatch(message, job.occurrenceAt, () => this.renewLock(job));
+      await this.storage.completeSendJob(job.id, this.workerId);
+    } catch (error) {
+      // 鎖已被接手時不更新工作與訊息狀態，避免覆蓋另一個程序的結果
+      if (error instanceof SendJobLockLostError) {
+        console.warn(`${error.message}，停止發送`);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`佇列工作 ${job.id} 執行失敗:`, errorMessage);
+
+      // 前置條件不成立時依 retryable 判斷；其他例外（例如資料庫連線中斷）一律重試
+      const retryable = error instanceof DispatchError ? error.retryable : true;
+      if (retryable && job.attempts < MAX_ATTEMPTS) {
+        const retryAt = new Date(Date.now() + job.attempts * RETRY_DELAY_MS).toISOString();
+
+        // 重試時間已超過發送時段，直接視為過期
+        if (job.expiresAt && retryAt > job.expiresAt) {
+          const message = await this.storage.getMessage(job.messageId);
+          await this.expireJob(job, message);
+          return;
+        }
+
+        await this.storage.failSendJob(job.id, this.workerId, errorMessage, retryAt);
+        return;
+      }
+
+      await this.storage.failSendJob(job.id, this.workerId, errorMessage);
+      await this.archiveFailedSingle(job.messageId);
+    }
+  }
+
+  private async renewLock(job: SendJob) {
+    const renewed = await this.storage.renewSendJobLock(job.id, this.workerId, LOCK_TIMEOUT_MS);
+    if (!renewed) {
+      throw new SendJobLockLostError(job.id);
+    }
+  }
+
+  // 標記工作過期：單次訊息以 expired 狀態移至歷史紀錄；週期性訊息從這次之後繼續計算，不再補發
+  // 過期的時間點也計入已發送次數，有次數限制的規則才會結束（由 planner 標記為完成）
+  private async expireJob(job: SendJob, message: Message | undefined) {
+    console.log(`佇列工作 ${job.id}: 已超過發送時段（${job.expiresAt}），標記為過期`);
+    await this.storage.expireSendJob(job.id, this.workerId);
+    if (!message || message.archived) return;
+
+    if (message.type === "periodic" && message.recurringActive) {
+      const advanceLastSent = !message.lastSent || message.lastSent < job.occurrenceAt;
+      await this.storage.updateMessage(message.id, {
+        occurrenceCount: (message.occurrenceCount ?? 0) + 1,
+        ...(advanceLastSent ? { lastSent: job.occurrenceAt } : {}),
+      });
+      return;
+    }
+
+    await this.storage.updateMessage(message.id, {
+      status: "expired",
+      sentAt: new Date().toISOString(),
+      archived: true,
+    });
+  }
+
+  // 重試用盡後，單次訊息標記為失敗並移至歷史紀錄，避免一直停留在排程中
+  private async archiveFailedSingle(messageId: number) {
+    const message = await this.storage.getMessage(messageId);
+    if (!message || message.archived) return;
+    if (message.type === "periodic" && message.recurringActive) return;
+
+    await this.storage.updateMessage(messageId, {
+      status: "failed",
+      sentAt: new Date().toISOString(),
+      archived: true,
+    });
+  }
+}
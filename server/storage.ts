@@ -1,27 +1,50 @@
 import { 
   Group, InsertGroup, 
-  Template, InsertTemplate, 
+  Template, InsertTemplate, TemplateVersion,
   Message, InsertMessage, 
   Settings, InsertSettings,
-  groups, templates, messages, settings
+  Delivery, InsertDelivery,
+  SendJob, InsertSendJob,
+  Holiday, InsertHoliday,
+  InboundMessage, InsertInboundMessage,
+  groups, templates, templateVersions, messages, settings, deliveries, sendJobs, holidays, inboundMessages
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, arrayContains, asc, desc, eq, gte, inArray, lt, lte, or, sql, SQL } from "drizzle-orm";
 import { db } from "./db";
 
+// 歷史紀錄查詢條件，日期皆為ISO字串
+export type HistoryFilters = {
+  from?: string;
+  to?: string;
+  groupId?: string;
+  status?: string;
+};
+
+// 佇列工作的欄位更新，可搭配 SQL 運算式（例如 attempts + 1）
+type SendJobUpdate = { [K in keyof SendJob]?: SendJob[K] | SQL };
+type GroupUpdate = { [K in keyof Group]?: Group[K] | SQL };
+
 export interface IStorage {
   // Group operations
   getGroups(): Promise<Group[]>;
   getGroup(id: number): Promise<Group | undefined>;
+  getGroupByLineId(lineId: string): Promise<Group | undefined>;
   createGroup(group: InsertGroup): Promise<Group>;
   updateGroup(id: number, group: Partial<InsertGroup>): Promise<Group | undefined>;
   deleteGroup(id: number): Promise<boolean>;
+  // 記錄一次「Bot 不在群組內」的推播失敗，連續達 threshold 次時標記為無法送達
+  recordGroupNotMember(id: number, threshold: number): Promise<Group | undefined>;
+  // 推播成功時清除連續失敗次數
+  resetGroupFailures(id: number): Promise<Group | undefined>;
 
   // Template operations
   getTemplates(): Promise<Template[]>;
   getTemplate(id: number): Promise<Template | undefined>;
   createTemplate(template: InsertTemplate): Promise<Template>;
-  updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined>;
+  updateTemplate(id: number, template: Partial<InsertTemplate>, restoredFrom?: number): Promise<Template | undefined>;
   deleteTemplate(id: number): Promise<boolean>;
+  getTemplateVersions(templateId: number): Promise<TemplateVersion[]>;
+  getTemplateVersion(templateId: number, version: number): Promise<TemplateVersion | undefined>;
 
   // Message operations
   getMessages(): Promise<Message[]>;
@@ -29,10 +52,65 @@ export interface IStorage {
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: number, message: Partial<InsertMessage>): Promise<Message | undefined>;
   deleteMessage(id: number): Promise<boolean>;
+  getHistory(filters: HistoryFilters): Promise<Message[]>;
+  getMessagesByTemplate(templateId: number): Promise<Message[]>;
+  detachTemplateMessages(template: Template): Promise<number>;
+
+  // Holiday calendar operations
+  getHolidays(from?: string, to?: string): Promise<Holiday[]>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  updateHoliday(id: number, holiday: Partial<InsertHoliday>): Promise<Holiday | undefined>;
+  deleteHoliday(id: number): Promise<boolean>;
+  upsertHolidays(holidays: InsertHoliday[]): Promise<number>;
 
   // Settings operations
   getSettings(): Promise<Settings | undefined>;
   updateSettings(settings: Partial<InsertSettings>): Promise<Settings>;
+
+  // Delivery log operations
+  createDelivery(delivery: InsertDelivery): Promise<Delivery>;
+  getDeliveriesByMessage(messageId: number): Promise<Delivery[]>;
+  // 群組最近的發送紀錄，新的在前
+  getDeliveriesByGroup(groupId: number, limit: number): Promise<Delivery[]>;
+
+  // Inbound message operations
+  // 同一則 LINE 訊息已寫入過時回傳 undefined
+  createInboundMessage(message: InsertInboundMessage): Promise<InboundMessage | undefined>;
+  getInboundMessage(id: number): Promise<InboundMessage | undefined>;
+  // 圖片在回應 Webhook 之後才下載，下載完成時記錄檔名
+  setInboundMedia(id: number, mediaFile: string): Promise<InboundMessage | undefined>;
+  // 群組最近收到的訊息，新的在前
+  getInboundMessages(groupId: number, limit: number): Promise<InboundMessage[]>;
+
+  // Send job queue operations
+  enqueueSendJob(job: InsertSendJob): Promise<SendJob | undefined>;
+  claimSendJobs(workerId: string, limit: number, lockMs: number): Promise<SendJob[]>;
+  // 延長執行中工作的鎖定時間，鎖已被其他程序取得時回傳 undefined
+  renewSendJobLock(id: number, workerId: string, lockMs: number): Promise<SendJob | undefined>;
+  completeSendJob(id: number, workerId: string): Promise<SendJob | undefined>;
+  failSendJob(id: number, workerId: string, error: string, retryAt?: string): Promise<SendJob | undefined>;
+  expireSendJob(id: number, workerId: string): Promise<SendJob | undefined>;
+}
+
+// 版本紀錄保存的範本欄位
+function versionFields(template: Template) {
+  return {
+    name: template.name,
+    content: template.content,
+    type: template.type,
+    format: template.format,
+    flexContent: template.flexContent ?? null,
+    variables: template.variables,
+  };
+}
+
+function versionSnapshot(template: Template) {
+  return {
+    ...versionFields(template),
+    templateId: template.id,
+    version: template.version,
+    createdAt: new Date().toISOString(),
+  };
 }
 
 export class DatabaseStorage implements IStorage {
@@ -46,6 +124,11 @@ export class DatabaseStorage implements IStorage {
     return group || undefined;
   }
 
+  async getGroupByLineId(lineId: string): Promise<Group | undefined> {
+    const [group] = await db.select().from(groups).where(eq(groups.lineId, lineId));
+    return group || undefined;
+  }
+
   async createGroup(group: InsertGroup): Promise<Group> {
     const [newGroup] = await db.insert(groups).values(group).returning();
     return newGroup;
@@ -65,6 +148,33 @@ export class DatabaseStorage implements IStorage {
     return !!result;
   }
 
+  // 以 SQL 累加次數，同時發送多則訊息時不會互相覆蓋
+  async recordGroupNotMember(id: number, threshold: number): Promise<Group | undefined> {
+    const failures = sql`${groups.notMemberFailures} + 1`;
+    const update: GroupUpdate = {
+      notMemberFailures: failures,
+      unreachable: sql`${groups.unreachable} OR ${failures} >= ${threshold}`,
+      unreachableAt: sql`CASE WHEN ${groups.unreachable} THEN ${groups.unreachableAt}
+        WHEN ${failures} >= ${threshold} THEN ${new Date().toISOString()} ELSE NULL END`,
+    };
+    const [updatedGroup] = await db
+      .update(groups)
+      .set(update)
+      .where(eq(groups.id, id))
+      .returning();
+    return updatedGroup || undefined;
+  }
+
+  async resetGroupFailures(id: number): Promise<Group | undefined> {
+    const reset: GroupUpdate = { notMemberFailures: 0 };
+    const [updatedGroup] = await db
+      .update(groups)
+      .set(reset)
+      .where(eq(groups.id, id))
+      .returning();
+    return updatedGroup || undefined;
+  }
+
   // Template operations
   async getTemplates(): Promise<Template[]> {
     return await db.select().from(templates);
@@ -75,28 +185,75 @@ export class DatabaseStorage implements IStorage {
     return template || undefined;
   }
 
+  // 建立範本時同時記錄第 1 版
   async createTemplate(template: InsertTemplate): Promise<Template> {
-    const [newTemplate] = await db.insert(templates).values(template).returning();
-    return newTemplate;
+    return await db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(templates).values(template).returning();
+      await tx.insert(templateVersions).values(versionSnapshot(newTemplate));
+      return newTemplate;
+    });
   }
 
-  async updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined> {
-    const [updatedTemplate] = await db
-      .update(templates)
-      .set(template)
-      .where(eq(templates.id, id))
-      .returning();
-    return updatedTemplate || undefined;
+  // 修改範本時版本號加一並記錄新版本；內容沒有變動時不產生新版本
+  // 版本功能加入前建立的範本沒有版本紀錄，第一次修改時先補上修改前的版本
+  async updateTemplate(id: number, template: Partial<InsertTemplate>, restoredFrom?: number): Promise<Template | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(templates).where(eq(templates.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const next = { ...existing, ...template } as Template;
+      if (JSON.stringify(versionFields(next)) === JSON.stringify(versionFields(existing))) {
+        return existing;
+      }
+
+      await tx
+        .insert(templateVersions)
+        .values(versionSnapshot(existing))
+        .onConflictDoNothing();
+
+      const changes = { ...template, version: existing.version + 1 };
+      const [updatedTemplate] = await tx
+        .update(templates)
+        .set(changes)
+        .where(eq(templates.id, id))
+        .returning();
+      const snapshot = { ...versionSnapshot(updatedTemplate), restoredFrom: restoredFrom ?? null };
+      await tx.insert(templateVersions).values(snapshot);
+      return updatedTemplate;
+    });
   }
 
+  // 版本紀錄不隨範本刪除，只標記範本已刪除，複本訊息的 templateId/templateVersion 仍可查到當時的內容
   async deleteTemplate(id: number): Promise<boolean> {
-    const result = await db.delete(templates).where(eq(templates.id, id));
-    return !!result;
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(templates).where(eq(templates.id, id));
+      const deleted: Partial<TemplateVersion> = { templateDeletedAt: new Date().toISOString() };
+      await tx.update(templateVersions).set(deleted).where(eq(templateVersions.templateId, id));
+      return !!result;
+    });
+  }
+
+  // 新的版本在前
+  async getTemplateVersions(templateId: number): Promise<TemplateVersion[]> {
+    return await db
+      .select()
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, templateId))
+      .orderBy(desc(templateVersions.version));
+  }
+
+  async getTemplateVersion(templateId: number, version: number): Promise<TemplateVersion | undefined> {
+    const [templateVersion] = await db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.templateId, templateId), eq(templateVersions.version, version)));
+    return templateVersion || undefined;
   }
 
   // Message operations
+  // 只回傳尚未封存的訊息，已封存的單次訊息請使用 getHistory
   async getMessages(): Promise<Message[]> {
-    return await db.select().from(messages);
+    return await db.select().from(messages).where(eq(messages.archived, false));
   }
 
   async getMessage(id: number): Promise<Message | undefined> {
@@ -128,6 +285,99 @@ export class DatabaseStorage implements IStorage {
     return !!result;
   }
 
+  async getHistory(filters: HistoryFilters): Promise<Message[]> {
+    const conditions: SQL[] = [eq(messages.archived, true)];
+
+    if (filters.from) conditions.push(gte(messages.sentAt, filters.from));
+    if (filters.to) conditions.push(lte(messages.sentAt, filters.to));
+    if (filters.groupId) conditions.push(arrayContains(messages.groupIds, [filters.groupId]));
+    if (filters.status) conditions.push(eq(messages.status, filters.status));
+
+    return await db
+      .select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(desc(messages.sentAt));
+  }
+
+  // 由範本建立、尚未封存的訊息（連結與複本都包含）
+  async getMessagesByTemplate(templateId: number): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.templateId, templateId), eq(messages.archived, false)))
+      .orderBy(asc(messages.scheduledTime));
+  }
+
+  // 刪除範本前，將連結的訊息改為使用範本目前內容的複本，之後照常發送
+  async detachTemplateMessages(template: Template): Promise<number> {
+    const detached = {
+      content: template.content,
+      format: template.format,
+      flexContent: template.flexContent,
+      templateVersion: template.version,
+      templateLinked: false,
+    };
+    const result = await db
+      .update(messages)
+      .set(detached)
+      .where(and(eq(messages.templateId, template.id), eq(messages.templateLinked, true)))
+      .returning({ id: messages.id });
+    return result.length;
+  }
+
+  // Holiday calendar operations
+  // from/to 為 YYYY-MM-DD，包含頭尾
+  async getHolidays(from?: string, to?: string): Promise<Holiday[]> {
+    const conditions: SQL[] = [];
+    if (from) conditions.push(gte(holidays.date, from));
+    if (to) conditions.push(lte(holidays.date, to));
+
+    return await db
+      .select()
+      .from(holidays)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(holidays.date));
+  }
+
+  async createHoliday(holiday: InsertHoliday): Promise<Holiday> {
+    const [newHoliday] = await db.insert(holidays).values(holiday).returning();
+    return newHoliday;
+  }
+
+  async updateHoliday(id: number, holiday: Partial<InsertHoliday>): Promise<Holiday | undefined> {
+    const [updatedHoliday] = await db
+      .update(holidays)
+      .set(holiday)
+      .where(eq(holidays.id, id))
+      .returning();
+    return updatedHoliday || undefined;
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    const result = await db.delete(holidays).where(eq(holidays.id, id));
+    return !!result;
+  }
+
+  // 匯入行事曆：同一天已存在時以匯入的資料覆蓋，回傳寫入筆數
+  async upsertHolidays(holidayList: InsertHoliday[]): Promise<number> {
+    // 同一批資料中重複的日期只保留最後一筆，避免 ON CONFLICT 同一列更新兩次
+    const byDate = new Map(holidayList.map(holiday => [holiday.date, holiday]));
+    holidayList = Array.from(byDate.values());
+    if (holidayList.length === 0) return 0;
+
+    const overwrite: { [K in keyof Holiday]?: SQL } = {
+      name: sql`excluded.name`,
+      isWorkday: sql`excluded.is_workday`,
+    };
+    const rows = await db
+      .insert(holidays)
+      .values(holidayList)
+      .onConflictDoUpdate({ target: holidays.date, set: overwrite })
+      .returning();
+    return rows.length;
+  }
+
   // Settings operations
   async getSettings(): Promise<Settings | undefined> {
     const allSettings = await db.select().from(settings);
@@ -145,6 +395,8 @@ export class DatabaseStorage implements IStorage {
         lineChannelSecret: settingsData.lineChannelSecret || "",
         lastSynced: settingsData.lastSynced || new Date().toISOString(),
         isConnected: settingsData.isConnected || false,
+        amountTemplate: settingsData.amountTemplate ?? null,
+        adminUserIds: settingsData.adminUserIds || [],
       };
       const [created] = await db.insert(settings).values(newSettings).returning();
       return created;
@@ -158,13 +410,174 @@ export class DatabaseStorage implements IStorage {
       return updated;
     }
   }
+
+  // Delivery log operations
+  async createDelivery(delivery: InsertDelivery): Promise<Delivery> {
+    const [newDelivery] = await db.insert(deliveries).values(delivery).returning();
+    return newDelivery;
+  }
+
+  async getDeliveriesByMessage(messageId: number): Promise<Delivery[]> {
+    return await db
+      .select()
+      .from(deliveries)
+      .where(eq(deliveries.messageId, messageId))
+      .orderBy(asc(deliveries.attemptedAt), asc(deliveries.id));
+  }
+
+  async getDeliveriesByGroup(groupId: number, limit: number): Promise<Delivery[]> {
+    return await db
+      .select()
+      .from(deliveries)
+      .where(eq(deliveries.groupId, groupId))
+      .orderBy(desc(deliveries.attemptedAt), desc(deliveries.id))
+      .limit(limit);
+  }
+
+  // Inbound message operations
+  async createInboundMessage(message: InsertInboundMessage): Promise<InboundMessage | undefined> {
+    const [created] = await db
+      .insert(inboundMessages)
+      .values(message)
+      .onConflictDoNothing({ target: inboundMessages.lineMessageId })
+      .returning();
+    return created;
+  }
+
+  async getInboundMessage(id: number): Promise<InboundMessage | undefined> {
+    const [message] = await db.select().from(inboundMessages).where(eq(inboundMessages.id, id));
+    return message || undefined;
+  }
+
+  async setInboundMedia(id: number, mediaFile: string): Promise<InboundMessage | undefined> {
+    const media: Partial<InboundMessage> = { mediaFile };
+    const [updated] = await db
+      .update(inboundMessages)
+      .set(media)
+      .where(eq(inboundMessages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getInboundMessages(groupId: number, limit: number): Promise<InboundMessage[]> {
+    return await db
+      .select()
+      .from(inboundMessages)
+      .where(eq(inboundMessages.groupId, groupId))
+      .orderBy(desc(inboundMessages.receivedAt), desc(inboundMessages.id))
+      .limit(limit);
+  }
+
+  // Send job queue operations
+  // 同一則訊息的同一次發送已存在時不重複建立，回傳 undefined
+  async enqueueSendJob(job: InsertSendJob): Promise<SendJob | undefined> {
+    const [newJob] = await db
+      .insert(sendJobs)
+      .values({ ...job, createdAt: new Date().toISOString() })
+      .onConflictDoNothing({ target: [sendJobs.messageId, sendJobs.occurrenceAt] })
+      .returning();
+    return newJob || undefined;
+  }
+
+  // 領取到期的工作：FOR UPDATE SKIP LOCKED 讓多個程序同時領取時不會拿到同一筆，
+  // 鎖定逾時（lockedUntil 已過）的 running 工作視為原程序中斷，可重新領取
+  async claimSendJobs(workerId: string, limit: number, lockMs: number): Promise<SendJob[]> {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const lockedUntil = new Date(now.getTime() + lockMs).toISOString();
+
+    return await db.transaction(async (tx) => {
+      const claimable = await tx
+        .select({ id: sendJobs.id })
+        .from(sendJobs)
+        .where(and(
+          lte(sendJobs.runAt, nowIso),
+          or(
+            eq(sendJobs.status, "pending"),
+            and(eq(sendJobs.status, "running"), lt(sendJobs.lockedUntil, nowIso))
+          )
+        ))
+        .orderBy(asc(sendJobs.runAt), asc(sendJobs.id))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      if (claimable.length === 0) return [];
+
+      const claim: SendJobUpdate = {
+        status: "running",
+        lockedBy: workerId,
+        lockedUntil,
+        attempts: sql`${sendJobs.attempts} + 1`,
+      };
+      return await tx
+        .update(sendJobs)
+        .set(claim)
+        .where(inArray(sendJobs.id, claimable.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async renewSendJobLock(id: number, workerId: string, lockMs: number): Promise<SendJob | undefined> {
+    const renewed: SendJobUpdate = { lockedUntil: new Date(Date.now() + lockMs).toISOString() };
+    const [job] = await db
+      .update(sendJobs)
+      .set(renewed)
+      .where(and(eq(sendJobs.id, id), eq(sendJobs.lockedBy, workerId), eq(sendJobs.status, "running")))
+      .returning();
+    return job || undefined;
+  }
+
+  // 只有目前持有鎖的程序可以結束工作，避免逾時後被重新領取時互相覆蓋
+  async completeSendJob(id: number, workerId: string): Promise<SendJob | undefined> {
+    const done: SendJobUpdate = {
+      status: "done",
+      lockedUntil: null,
+      lastError: null,
+      completedAt: new Date().toISOString(),
+    };
+    const [job] = await db
+      .update(sendJobs)
+      .set(done)
+      .where(and(eq(sendJobs.id, id), eq(sendJobs.lockedBy, workerId)))
+      .returning();
+    return job || undefined;
+  }
+
+  // 提供 retryAt 時放回佇列等待重試，否則標記為失敗
+  async failSendJob(id: number, workerId: string, error: string, retryAt?: string): Promise<SendJob | undefined> {
+    const update: SendJobUpdate = retryAt
+      ? { status: "pending", runAt: retryAt, lockedBy: null, lockedUntil: null, lastError: error }
+      : { status: "failed", lockedUntil: null, lastError: error, completedAt: new Date().toISOString() };
+
+    const [job] = await db
+      .update(sendJobs)
+      .set(update)
+      .where(and(eq(sendJobs.id, id), eq(sendJobs.lockedBy, workerId)))
+      .returning();
+    return job || undefined;
+  }
+
+  // 超過發送時段仍未發送，標記為過期不再發送
+  async expireSendJob(id: number, workerId: string): Promise<SendJob | undefined> {
+    const expired: SendJobUpdate = {
+      status: "expired",
+      lockedUntil: null,
+      completedAt: new Date().toISOString(),
+    };
+    const [job] = await db
+      .update(sendJobs)
+      .set(expired)
+      .where(and(eq(sendJobs.id, id), eq(sendJobs.lockedBy, workerId)))
+      .returning();
+    return job || undefined;
+  }
 }
 
 // Initialize with database storage
 export const storage = new DatabaseStorage();
 
-// 初始化數據
-async function initializeDefaultData() {
+// 初始化數據：資料表建立後由 server/index.ts 呼叫
+export async function initializeDefaultData() {
   console.log("檢查並初始化默認數據...");
   
   try {
@@ -181,7 +594,7 @@ async function initializeDefaultData() {
         { name: "Tina群", lineId: "C164037891996ce50ce13c0cba24e154f" },
         { name: "網站設計師（土蓉）", lineId: "Cf1b26d83e385242632b3970b3f8c622f" },
         { name: "工程師組", lineId: "C536c0214d33c80eeac1b084953dd168b" },
-        { name: "安可淘比", lineId: "C0087254caf944297a7081be33dc4c8df" } // 特殊處理的群組ID
+        { name: "安可淘比", lineId: "C0087254caf944297a7081be33dc4c8df", deliveryPolicy: "best_effort" } // 發送失敗仍視為成功
       ];
 
       for (const group of defaultGroups) {
@@ -198,10 +611,17 @@ async function initializeDefaultData() {
         { name: "會議提醒", content: "【每日提醒】 明天早上開會囉！\n時間點：每週四 早上 10:00-11:00\n會議連結為：https://meet.google.com/wta-wwbd-yiw\n請填寫會議表單：https://mommystartup.work/開會表單\n專案表模板（請建立副本後再製作）：https://mommystartup.work/專案模板\n請確認報告內容：\n0.其他週表單填寫\n1.最後一週專案計畫進度與成效\n2.本週需要大家協助的地方", type: "meeting" },
         { name: "放假通知", content: "各位同仁好，\n智慧媽咪將於 5/1 勞動節放假一天，5/2 正常上班。\n如有緊急事項請聯繫主管。\n祝大家連假愉快！", type: "holiday" },
         { name: "專案進度詢問", content: "親愛的團隊成員：\n\nOOO客戶的網站專案進度如何？\n請回報最新進度，謝謝。", type: "project" },
-        { name: "入帳通知", content: "親愛的客戶您好，\n我們已收到您的 6 月份款項。\n感謝您的支持！如有任何問題，歡迎隨時聯繫我們。", type: "payment" },
-        { name: "發票寄送通知", content: "親愛的客戶您好，\n您的電子發票（FY-12345678）已寄至您的電子郵件信箱，請查收。\n如有任何問題，歡迎隨時聯繫我們。", type: "invoice" },
+        { name: "入帳通知", content: "親愛的客戶您好，\n我們已收到您的 {{month}}份款項。\n感謝您的支持！如有任何問題，歡迎隨時聯繫我們。", type: "payment",
+          variables: [{ name: "month", label: "款項月份", type: "month" }] },
+        { name: "發票寄送通知", content: "親愛的客戶您好，\n您的電子發票（{{invoice_no}}）已寄至您的電子郵件信箱，請查收。\n如有任何問題，歡迎隨時聯繫我們。", type: "invoice",
+          variables: [{ name: "invoice_no", label: "發票號碼", type: "text" }] },
         { name: "自我介紹", content: "您好，\n\n我是智慧媽咪LINE通知系統，\n負責提醒各項事項，包含：\n會議通知、請款、入款、發票等寄送通知。", type: "introduction" },
-        { name: "收款通知", content: "親愛的客戶您好，\n這是7月份的服務費用通知。請於5日前匯款至：\n\n彰化銀行 009\n帳號：96038605494000\n戶名：智慧媽咪國際有限公司\n\n發票將於收到款項後提供，感謝您的合作。", type: "payment" }
+        { name: "收款通知", content: "親愛的客戶您好，\n這是{{month}}份的服務費用通知，金額 {{amount}} 元。請於 {{due_date}} 前匯款至：\n\n彰化銀行 009\n帳號：96038605494000\n戶名：智慧媽咪國際有限公司\n\n發票將於收到款項後提供，感謝您的合作。", type: "payment",
+          variables: [
+            { name: "month", label: "費用月份", type: "month" },
+            { name: "amount", label: "金額", type: "amount" },
+            { name: "due_date", label: "匯款期限", type: "date" },
+          ] }
       ];
 
       for (const template of defaultTemplates) {
@@ -226,8 +646,3 @@ async function initializeDefaultData() {
     console.error("初始化數據時出錯:", error);
   }
 }
-
-// 在應用啟動時初始化數據
-initializeDefaultData().catch(err => {
-  console.error("初始化數據失敗:", err);
-});
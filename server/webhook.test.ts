@@ -0,0 +1,118 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import type { IStorage } from "./storage";
+import { SIGNATURE_HEADER, captureRawBody, lineSignature, verifySignature } from "./webhook";
+
+// 錄下的 Webhook 請求：fixtures 內的原始內容與 LINE 送來的 X-Line-Signature
+// message 以目前的 Channel Secret 簽章，join 以更換前的舊 Secret 簽章
+const CURRENT_SECRET = "0123456789abcdef0123456789abcdef";
+const ROTATED_SECRET = "fedcba9876543210fedcba9876543210";
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+const messageBody = fixture("line-webhook-message.json");
+const joinBody = fixture("line-webhook-join.json");
+const MESSAGE_SIGNATURE = "UJsSBVO1K0RN2Z+Wa9xlh4Bk3ClpFlD0N4ckqyP0OeA=";
+const JOIN_SIGNATURE = "CLlJEJ+TPe2PAZNItptxRzD3uMEw8vMn/moJoJLzeqs=";
+
+describe("verifySignature", () => {
+  it("接受以目前 Secret 簽章的內容", () => {
+    assert.equal(verifySignature(messageBody, MESSAGE_SIGNATURE, [CURRENT_SECRET]), true);
+  });
+
+  it("更換 Secret 期間接受以舊 Secret 簽章的內容", () => {
+    assert.equal(verifySignature(joinBody, JOIN_SIGNATURE, [CURRENT_SECRET]), false);
+    assert.equal(verifySignature(joinBody, JOIN_SIGNATURE, [CURRENT_SECRET, ROTATED_SECRET]), true);
+  });
+
+  it("拒絕被竄改的內容", () => {
+    const tampered = Buffer.from(messageBody.toString("utf8").replace("收到，謝謝！", "請退款"));
+    assert.equal(verifySignature(tampered, MESSAGE_SIGNATURE, [CURRENT_SECRET]), false);
+  });
+
+  it("重新序列化的 JSON 與原始內容位元組不同，無法通過驗證", () => {
+    const reserialized = JSON.stringify(JSON.parse(messageBody.toString("utf8")));
+    assert.equal(verifySignature(reserialized, MESSAGE_SIGNATURE, [CURRENT_SECRET]), false);
+  });
+
+  it("拒絕格式錯誤的簽章", () => {
+    assert.equal(verifySignature(messageBody, "not-a-signature", [CURRENT_SECRET]), false);
+  });
+});
+
+describe("lineSignature middleware", () => {
+  let server: Server;
+  let baseUrl: string;
+  const previousEnv = { single: process.env.LINE_CHANNEL_SECRET, list: process.env.LINE_CHANNEL_SECRETS };
+
+  before(async () => {
+    process.env.LINE_CHANNEL_SECRET = CURRENT_SECRET;
+    process.env.LINE_CHANNEL_SECRETS = ROTATED_SECRET;
+    const storage = { getSettings: async () => undefined } as unknown as IStorage;
+
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.post("/webhook", lineSignature(storage), (req, res) => {
+      res.json({ events: req.body.events.length });
+    });
+    // 模擬先解析 JSON 再重新序列化的處理方式，原始內容已遺失
+    app.post("/reserialized", express.text({ type: "*/*" }), (req, _res, next) => {
+      (req as { rawBody?: Buffer }).rawBody = Buffer.from(JSON.stringify(req.body));
+      next();
+    }, lineSignature(storage), (_req, res) => {
+      res.json({ ok: true });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    process.env.LINE_CHANNEL_SECRET = previousEnv.single;
+    process.env.LINE_CHANNEL_SECRETS = previousEnv.list;
+    if (previousEnv.single === undefined) delete process.env.LINE_CHANNEL_SECRET;
+    if (previousEnv.list === undefined) delete process.env.LINE_CHANNEL_SECRETS;
+  });
+
+  const post = (path: string, body: Buffer | string, signature?: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(signature ? { [SIGNATURE_HEADER]: signature } : {}),
+      },
+      body,
+    });
+
+  it("簽章正確時處理事件", async () => {
+    const response = await post("/webhook", messageBody, MESSAGE_SIGNATURE);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { events: 1 });
+  });
+
+  it("接受以更換前的 Secret 簽章的請求", async () => {
+    const response = await post("/webhook", joinBody, JOIN_SIGNATURE);
+    assert.equal(response.status, 200);
+  });
+
+  it("缺少 X-Line-Signature 時回傳 401", async () => {
+    const response = await post("/webhook", messageBody);
+    assert.equal(response.status, 401);
+  });
+
+  it("內容被竄改時回傳 401", async () => {
+    const tampered = messageBody.toString("utf8").replace("1767225600000", "1767225600001");
+    const response = await post("/webhook", tampered, MESSAGE_SIGNATURE);
+    assert.equal(response.status, 401);
+  });
+
+  it("以重新序列化的內容驗證時回傳 401", async () => {
+    const response = await post("/reserialized", messageBody, MESSAGE_SIGNATURE);
+    assert.equal(response.status, 401);
+  });
+});
@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { IStorage } from "./storage";
+
+// LINE Webhook 簽章驗證：X-Line-Signature 為以 Channel Secret 對原始請求內容計算的 HMAC-SHA256（Base64）
+export const SIGNATURE_HEADER = "x-line-signature";
+
+// 保留原始請求內容供簽章驗證，JSON 解析後的物件無法還原出相同的位元組
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+// 供 express.json({ verify }) 使用，在解析 JSON 前保存原始內容
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+// 簽章驗證失敗，status 對應 HTTP 狀態碼
+export class WebhookSignatureError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+export function computeSignature(secret: string, body: Buffer | string): string {
+  return createHmac("sha256", secret).update(body).digest("base64");
+}
+
+// 任一把 Channel Secret 驗證通過即可，更換 Secret 期間新舊兩把都接受
+export function verifySignature(body: Buffer | string, signature: string, secrets: string[]): boolean {
+  const received = Buffer.from(signature, "base64");
+  return secrets.some(secret => {
+    const expected = Buffer.from(computeSignature(secret, body), "base64");
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  });
+}
+
+// 可用的 Channel Secret：環境變數 LINE_CHANNEL_SECRET、LINE_CHANNEL_SECRETS（以逗號分隔，更換期間放舊的 Secret）與資料庫設定
+export async function resolveChannelSecrets(storage: IStorage): Promise<string[]> {
+  const settings = await storage.getSettings();
+  const secrets = [
+    process.env.LINE_CHANNEL_SECRET,
+    ...(process.env.LINE_CHANNEL_SECRETS || "").split(","),
+    settings?.lineChannelSecret,
+  ];
+  return Array.from(new Set(secrets.map(secret => (secret || "").trim()).filter(Boolean)));
+}
+
+// 驗證請求的 X-Line-Signature，沒有簽章或簽章不符時拋出 WebhookSignatureError
+export async function assertLineSignature(req: RawBodyRequest, storage: IStorage): Promise<void> {
+  const signature = req.get(SIGNATURE_HEADER);
+  if (!signature) {
+    throw new WebhookSignatureError("缺少 X-Line-Signature");
+  }
+  if (!req.rawBody) {
+    throw new WebhookSignatureError("無法取得原始請求內容，無法驗證簽章", 400);
+  }
+
+  const secrets = await resolveChannelSecrets(storage);
+  if (secrets.length === 0) {
+    throw new WebhookSignatureError("尚未設定 LINE Channel Secret，無法驗證簽章", 500);
+  }
+  if (!verifySignature(req.rawBody, signature, secrets)) {
+    throw new WebhookSignatureError("X-Line-Signature 驗證失敗");
+  }
+}
+
+// Webhook 路由的簽章驗證 middleware，驗證失敗時不處理事件
+export function lineSignature(storage: IStorage): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await assertLineSignature(req as RawBodyRequest, storage);
+      next();
+    } catch (err) {
+      if (err instanceof WebhookSignatureError) {
+        console.warn(`拒絕 LINE Webhook 請求：${err.message}`);
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,42 @@
+// 訊息附件：與主要內容（文字或 Flex）在同一次推播一起送出的圖片與貼圖
+
+export const attachmentTypes = ["image", "sticker"] as const;
+export type AttachmentType = typeof attachmentTypes[number];
+
+// 圖片由本機媒體庫提供公開網址，LINE 伺服器會直接下載
+export type ImageAttachment = { type: "image"; originalContentUrl: string; previewImageUrl: string };
+export type StickerAttachment = { type: "sticker"; packageId: string; stickerId: string };
+export type MessageAttachment = ImageAttachment | StickerAttachment;
+
+// LINE 單次推播最多 5 個訊息物件，主要內容佔其中一個
+export const MAX_MESSAGE_OBJECTS = 5;
+export const MAX_ATTACHMENTS = MAX_MESSAGE_OBJECTS - 1;
+
+// LINE 圖片限制：原圖 10MB、預覽圖 1MB，只接受 JPEG 與 PNG
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_PREVIEW_BYTES = 1024 * 1024;
+export const imageContentTypes = ["image/jpeg", "image/png"];
+
+// 可在機器人訊息中使用的 LINE 官方免費貼圖包，stickerId 為連續編號
+export const stickerPackages: { packageId: string; label: string; first: number; last: number }[] = [
+  { packageId: "446", label: "熊大與兔兔", first: 1988, last: 2027 },
+  { packageId: "789", label: "莎莉", first: 10855, last: 10894 },
+  { packageId: "1070", label: "熊大與朋友", first: 17839, last: 17878 },
+  { packageId: "6136", label: "LINE FRIENDS 日常", first: 10551376, last: 10551399 },
+  { packageId: "6325", label: "熊大的問候", first: 10979904, last: 10979927 },
+  { packageId: "6359", label: "兔兔的問候", first: 11069848, last: 11069871 },
+  { packageId: "6362", label: "BROWN & CONY", first: 11087920, last: 11087943 },
+  { packageId: "6370", label: "饅頭人", first: 11088016, last: 11088039 },
+  { packageId: "6632", label: "LINE 角色 表情", first: 11825374, last: 11825397 },
+  { packageId: "8515", label: "熊大 動態", first: 16581242, last: 16581265 },
+  { packageId: "8522", label: "兔兔 動態", first: 16581266, last: 16581289 },
+  { packageId: "8525", label: "莎莉 動態", first: 16581290, last: 16581313 },
+  { packageId: "11537", label: "BROWN & FRIENDS", first: 52002734, last: 52002773 },
+  { packageId: "11538", label: "CHOCO & FRIENDS", first: 51626494, last: 51626533 },
+  { packageId: "11539", label: "UNIVERSTAR BT21", first: 52114110, last: 52114149 },
+];
+
+// 貼圖縮圖網址（LINE 貼圖商店的公開圖檔），只用於介面預覽
+export function stickerImageUrl(stickerId: string | number): string {
+  return `https://stickershop.line-scdn.net/stickershop/v1/sticker/${stickerId}/android/sticker.png`;
+}
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { currencies, currencyCodes, parseAmount } from "./currency";
+
+describe("parseAmount", () => {
+  it("接受正確的千分位與不含逗號的金額", () => {
+    assert.equal(parseAmount("1,234,567.89"), 1234567.89);
+    assert.equal(parseAmount(" 123 "), 123);
+    assert.equal(parseAmount("1234.5"), 1234.5);
+  });
+
+  it("拒絕位置錯誤的千分位逗號", () => {
+    assert.equal(parseAmount("1,2,3"), null);
+    assert.equal(parseAmount("12,34"), null);
+    assert.equal(parseAmount("1234,567"), null);
+    assert.equal(parseAmount(",123"), null);
+  });
+
+  it("拒絕負數與空白輸入", () => {
+    assert.equal(parseAmount("-100"), null);
+    assert.equal(parseAmount(""), null);
+  });
+});
+
+describe("currencyCodes", () => {
+  it("與幣別清單一致", () => {
+    assert.deepEqual(currencyCodes, currencies.map(c => c.code));
+  });
+});
@@ -0,0 +1,101 @@
+// 幣別與金額格式：ISO 4217 幣別代碼、符號、小數位數與千分位
+// 前端的金額欄位、預覽與伺服器發送時附加的金額都使用同一套規則
+
+export type CurrencyInfo = {
+  code: string;
+  symbol: string;
+  label: string;
+  decimals: number; // 最多幾位小數，格式化時固定顯示此位數
+};
+
+export const currencies = [
+  { code: "TWD", symbol: "NT$", label: "台幣", decimals: 0 },
+  { code: "AUD", symbol: "AU$", label: "澳幣", decimals: 2 },
+  { code: "USD", symbol: "US$", label: "美金", decimals: 2 },
+  { code: "JPY", symbol: "JP¥", label: "日圓", decimals: 0 },
+  { code: "HKD", symbol: "HK$", label: "港幣", decimals: 2 },
+  { code: "EUR", symbol: "€", label: "歐元", decimals: 2 },
+] as const satisfies readonly CurrencyInfo[];
+
+// 幣別代碼由 currencies 產生，新增幣別時只需修改上方清單
+export type CurrencyCode = typeof currencies[number]["code"];
+export const currencyCodes = currencies.map(c => c.code) as [CurrencyCode, ...CurrencyCode[]];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "TWD";
+
+// 金額附加在訊息內容時的格式，{symbol}、{amount}、{code} 會被取代
+export const DEFAULT_AMOUNT_TEMPLATE = "金額: {symbol}{amount}";
+
+export function currencyOf(code: string | null | undefined): CurrencyInfo | undefined {
+  return currencies.find(c => c.code === code);
+}
+
+// 千分位逗號必須每三位一組（與範本變數 amount 類型的規則相同），或完全不使用逗號
+const AMOUNT_PATTERN = /^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/;
+
+// 解析使用者輸入的金額：允許千分位逗號與前後空白，不接受負數、其他符號或位置錯誤的逗號（例如 1,2,3）
+export function parseAmount(input: string | null | undefined): number | null {
+  const trimmed = (input || "").trim();
+  if (!AMOUNT_PATTERN.test(trimmed)) return null;
+  return Number(trimmed.replace(/,/g, ""));
+}
+
+// 儲存用的金額：去掉千分位，空白視為未填寫
+export function normalizeAmount(input: string | null | undefined): string | null {
+  const trimmed = (input || "").trim();
+  if (trimmed === "") return null;
+  return trimmed.replace(/,/g, "");
+}
+
+// 檢查金額是否為數字且小數位數不超過幣別規定，通過時回傳 null
+export function validateAmount(amount: string | null | undefined, code: string | null | undefined): string | null {
+  if (!amount || amount.trim() === "") return null;
+  if (parseAmount(amount) === null) return "金額必須是數字";
+
+  const currency = currencyOf(code);
+  if (!currency) return null;
+  const fraction = amount.trim().split(".")[1] || "";
+  if (fraction.length > currency.decimals) {
+    return currency.decimals === 0
+      ? `${currency.label}金額不能有小數`
+      : `${currency.label}金額最多 ${currency.decimals} 位小數`;
+  }
+  return null;
+}
+
+// 加上千分位並依幣別固定小數位數，例如 TWD 12,000、USD 1,234.50
+export function formatAmount(amount: string | number, code: string | null | undefined): string {
+  const value = typeof amount === "number" ? amount : parseAmount(amount);
+  if (value === null) return String(amount);
+
+  const decimals = currencyOf(code)?.decimals ?? 0;
+  return value.toLocaleString("en-US", { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+// 幣別符號加金額，例如 NT$12,000
+export function formatMoney(amount: string | number, code: string | null | undefined): string {
+  return `${currencyOf(code)?.symbol || ""}${formatAmount(amount, code)}`;
+}
+
+// 依格式產生附加在訊息內容的金額文字
+export function formatAmountLine(
+  amount: string | number,
+  code: string | null | undefined,
+  template: string = DEFAULT_AMOUNT_TEMPLATE
+): string {
+  return template
+    .replace(/\{symbol\}/g, currencyOf(code)?.symbol || "")
+    .replace(/\{code\}/g, code || "")
+    .replace(/\{amount\}/g, formatAmount(amount, code));
+}
+
+export function isValidAmountTemplate(template: string): boolean {
+  return template.includes("{amount}");
+}
+
+// 內容中依 template 產生的金額那一行（以格式中 {symbol}/{amount} 之前的文字辨識），找不到時回傳 null
+export function findAmountLine(content: string, template: string = DEFAULT_AMOUNT_TEMPLATE): string | null {
+  const prefix = template.split("{")[0].trim();
+  if (!prefix) return null;
+  return content.split("\n").find(line => line.trim().startsWith(prefix)) ?? null;
+}
@@ -0,0 +1,252 @@
+// LINE Flex Message 的結構定義與驗證，前端編輯器預覽與伺服器發送前都使用同一套規則
+// 只支援常用的元件：box、text、span、button、image、icon、separator、filler
+
+// 訊息格式：text 為一般文字訊息；flex 以 flexContent 的 JSON 發送，content 作為通知與替代文字
+export const messageFormats = ["text", "flex"] as const;
+export type MessageFormat = typeof messageFormats[number];
+
+export type FlexAction =
+  | { type: "uri"; label?: string; uri: string }
+  | { type: "message"; label?: string; text: string }
+  | { type: "postback"; label?: string; data: string; displayText?: string };
+
+export type FlexSpan = { type: "span"; text: string; size?: string; weight?: string; color?: string };
+
+export type FlexComponent =
+  | {
+      type: "box";
+      layout: "horizontal" | "vertical" | "baseline";
+      contents: FlexComponent[];
+      spacing?: string;
+      margin?: string;
+      paddingAll?: string;
+      backgroundColor?: string;
+      cornerRadius?: string;
+      flex?: number;
+      action?: FlexAction;
+    }
+  | {
+      type: "text";
+      text?: string;
+      contents?: FlexSpan[];
+      size?: string;
+      weight?: "regular" | "bold";
+      color?: string;
+      align?: "start" | "end" | "center";
+      wrap?: boolean;
+      margin?: string;
+      flex?: number;
+      action?: FlexAction;
+    }
+  | {
+      type: "button";
+      action: FlexAction;
+      style?: "primary" | "secondary" | "link";
+      color?: string;
+      height?: "sm" | "md";
+      margin?: string;
+      flex?: number;
+    }
+  | { type: "image"; url: string; size?: string; aspectRatio?: string; aspectMode?: "cover" | "fit"; margin?: string; flex?: number; action?: FlexAction }
+  | { type: "icon"; url: string; size?: string; margin?: string }
+  | { type: "separator"; margin?: string; color?: string }
+  | { type: "filler"; flex?: number };
+
+export type FlexBubble = {
+  type: "bubble";
+  size?: "nano" | "micro" | "kilo" | "mega" | "giga";
+  header?: FlexComponent;
+  hero?: FlexComponent;
+  body?: FlexComponent;
+  footer?: FlexComponent;
+  styles?: Record<string, unknown>;
+};
+
+export type FlexCarousel = { type: "carousel"; contents: FlexBubble[] };
+
+export type FlexContainer = FlexBubble | FlexCarousel;
+
+// LINE 的限制：carousel 最多 12 個 bubble；JSON 大小 bubble 30KB、carousel 50KB；替代文字最多 1500 字
+export const MAX_CAROUSEL_BUBBLES = 12;
+const MAX_BUBBLE_BYTES = 30 * 1024;
+const MAX_CAROUSEL_BYTES = 50 * 1024;
+export const MAX_ALT_TEXT_LENGTH = 1500;
+
+export class FlexValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Flex 訊息格式錯誤：${errors.join("；")}`);
+    this.name = "FlexValidationError";
+  }
+}
+
+const boxLayouts = ["horizontal", "vertical", "baseline"];
+const buttonStyles = ["primary", "secondary", "link"];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function validateAction(action: unknown, path: string, errors: string[], requireLabel = false) {
+  if (!isObject(action)) {
+    errors.push(`${path} 必須是物件`);
+    return;
+  }
+  if (requireLabel && (typeof action.label !== "string" || action.label === "")) {
+    errors.push(`${path}.label 不能為空`);
+  }
+
+  switch (action.type) {
+    case "uri":
+      if (typeof action.uri !== "string" || !/^(https?:|line:|tel:)/.test(action.uri)) {
+        errors.push(`${path}.uri 必須是 http(s)、line 或 tel 網址`);
+      }
+      break;
+    case "message":
+      if (typeof action.text !== "string" || action.text === "") errors.push(`${path}.text 不能為空`);
+      break;
+    case "postback":
+      if (typeof action.data !== "string" || action.data === "") errors.push(`${path}.data 不能為空`);
+      break;
+    default:
+      errors.push(`${path}.type 不支援: ${action.type}（只支援 uri、message、postback）`);
+  }
+}
+
+function validateComponent(component: unknown, path: string, errors: string[]) {
+  if (!isObject(component)) {
+    errors.push(`${path} 必須是物件`);
+    return;
+  }
+
+  switch (component.type) {
+    case "box":
+      if (!boxLayouts.includes(component.layout)) {
+        errors.push(`${path}.layout 必須是 horizontal、vertical 或 baseline`);
+      }
+      if (!Array.isArray(component.contents)) {
+        errors.push(`${path}.contents 必須是陣列`);
+      } else {
+        component.contents.forEach((child: unknown, i: number) => validateComponent(child, `${path}.contents[${i}]`, errors));
+      }
+      break;
+    case "text":
+      if (Array.isArray(component.contents) && component.contents.length > 0) {
+        component.contents.forEach((span: unknown, i: number) => {
+          if (!isObject(span) || span.type !== "span" || typeof span.text !== "string") {
+            errors.push(`${path}.contents[${i}] 必須是含有 text 的 span`);
+          }
+        });
+      } else if (typeof component.text !== "string" || component.text === "") {
+        errors.push(`${path}.text 不能為空`);
+      }
+      break;
+    case "button":
+      validateAction(component.action, `${path}.action`, errors, true);
+      if (component.style !== undefined && !buttonStyles.includes(component.style)) {
+        errors.push(`${path}.style 必須是 primary、secondary 或 link`);
+      }
+      break;
+    case "image":
+    case "icon":
+      if (typeof component.url !== "string" || !component.url.startsWith("https://")) {
+        errors.push(`${path}.url 必須是 https 網址`);
+      }
+      break;
+    case "separator":
+    case "filler":
+      break;
+    default:
+      errors.push(`${path}.type 不支援: ${component.type}`);
+      return;
+  }
+
+  if (component.action !== undefined && component.type !== "button") {
+    validateAction(component.action, `${path}.action`, errors);
+  }
+}
+
+function validateBubble(bubble: unknown, path: string, errors: string[]) {
+  if (!isObject(bubble) || bubble.type !== "bubble") {
+    errors.push(`${path}.type 必須是 bubble`);
+    return;
+  }
+
+  const blocks = ["header", "hero", "body", "footer"].filter(block => bubble[block] !== undefined);
+  if (blocks.length === 0) {
+    errors.push(`${path} 至少需要 header、hero、body 或 footer 其中之一`);
+  }
+
+  for (const block of blocks) {
+    const component = bubble[block];
+    // hero 可以直接放圖片，其餘區塊必須是 box
+    if (!(block === "hero" && isObject(component) && component.type === "image") && (!isObject(component) || component.type !== "box")) {
+      errors.push(`${path}.${block} 必須是 box${block === "hero" ? " 或 image" : ""}`);
+      continue;
+    }
+    validateComponent(component, `${path}.${block}`, errors);
+  }
+}
+
+// 驗證 Flex 容器（bubble 或 carousel），回傳所有錯誤訊息，空陣列表示通過
+export function validateFlexContainer(container: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(container)) {
+    return ["Flex 內容必須是 JSON 物件"];
+  }
+
+  if (container.type === "bubble") {
+    validateBubble(container, "bubble", errors);
+    if (byteLength(container) > MAX_BUBBLE_BYTES) errors.push("bubble 超過 30KB");
+  } else if (container.type === "carousel") {
+    if (!Array.isArray(container.contents) || container.contents.length === 0) {
+      errors.push("carousel.contents 必須是非空陣列");
+    } else {
+      if (container.contents.length > MAX_CAROUSEL_BUBBLES) {
+        errors.push(`carousel 最多 ${MAX_CAROUSEL_BUBBLES} 個 bubble`);
+      }
+      container.contents.forEach((bubble: unknown, i: number) => validateBubble(bubble, `carousel.contents[${i}]`, errors));
+    }
+    if (byteLength(container) > MAX_CAROUSEL_BYTES) errors.push("carousel 超過 50KB");
+  } else {
+    errors.push("type 必須是 bubble 或 carousel");
+  }
+
+  return errors;
+}
+
+// 解析並驗證 Flex JSON 字串，格式錯誤時拋出 FlexValidationError
+export function parseFlexContent(json: string): FlexContainer {
+  let container: unknown;
+  try {
+    container = JSON.parse(json);
+  } catch (err) {
+    throw new FlexValidationError([`JSON 解析失敗: ${err instanceof Error ? err.message : String(err)}`]);
+  }
+
+  const errors = validateFlexContainer(container);
+  if (errors.length > 0) {
+    throw new FlexValidationError(errors);
+  }
+  return container as FlexContainer;
+}
+
+// 表單驗證用：JSON 字串是否為合法的 Flex 容器
+export function isValidFlexJson(json?: string | null): boolean {
+  if (!json) return false;
+  try {
+    return validateFlexContainer(JSON.parse(json)).length === 0;
+  } catch {
+    return false;
+  }
+}
+
+// 通知與不支援 Flex 的裝置顯示的替代文字
+export function flexAltText(text: string): string {
+  const altText = text.trim() || "您有一則新訊息";
+  return altText.length > MAX_ALT_TEXT_LENGTH ? `${altText.slice(0, MAX_ALT_TEXT_LENGTH - 1)}…` : altText;
+}
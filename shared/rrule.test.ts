@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import moment from "moment-timezone";
+import { MonthEndOverflow, expandRRule, parseRRule } from "./rrule";
+
+const ZONE = "Asia/Taipei";
+
+function expand(rule: string, dtstart: string, through: string, overflow: MonthEndOverflow): string[] {
+  return expandRRule(
+    parseRRule(rule, ZONE),
+    moment.tz(dtstart, ZONE),
+    null,
+    moment.tz(through, ZONE),
+    500,
+    overflow
+  ).map(occurrence => occurrence.format("YYYY-MM-DD"));
+}
+
+// 1～3 月的每月 29/30/31 日：2023、2100 年二月 28 天（2100 不是閏年），2024 年二月 29 天
+const monthEndCases: { year: number; day: number; clamp: string[]; skip: string[]; roll: string[] }[] = [
+  { year: 2023, day: 29, clamp: ["01-29", "02-28", "03-29"], skip: ["01-29", "03-29"], roll: ["01-29", "03-01", "03-29"] },
+  { year: 2023, day: 30, clamp: ["01-30", "02-28", "03-30"], skip: ["01-30", "03-30"], roll: ["01-30", "03-02", "03-30"] },
+  { year: 2023, day: 31, clamp: ["01-31", "02-28", "03-31"], skip: ["01-31", "03-31"], roll: ["01-31", "03-03", "03-31"] },
+  { year: 2024, day: 29, clamp: ["01-29", "02-29", "03-29"], skip: ["01-29", "02-29", "03-29"], roll: ["01-29", "02-29", "03-29"] },
+  { year: 2024, day: 30, clamp: ["01-30", "02-29", "03-30"], skip: ["01-30", "03-30"], roll: ["01-30", "03-01", "03-30"] },
+  { year: 2024, day: 31, clamp: ["01-31", "02-29", "03-31"], skip: ["01-31", "03-31"], roll: ["01-31", "03-02", "03-31"] },
+  { year: 2100, day: 29, clamp: ["01-29", "02-28", "03-29"], skip: ["01-29", "03-29"], roll: ["01-29", "03-01", "03-29"] },
+  { year: 2100, day: 30, clamp: ["01-30", "02-28", "03-30"], skip: ["01-30", "03-30"], roll: ["01-30", "03-02", "03-30"] },
+  { year: 2100, day: 31, clamp: ["01-31", "02-28", "03-31"], skip: ["01-31", "03-31"], roll: ["01-31", "03-03", "03-31"] },
+];
+
+describe("expandRRule 月底日期", () => {
+  for (const { year, day, ...expected } of monthEndCases) {
+    for (const overflow of ["clamp", "skip", "roll"] as const) {
+      it(`${year} 年 BYMONTHDAY=${day}（${overflow}）`, () => {
+        assert.deepEqual(
+          expand(`FREQ=MONTHLY;BYMONTHDAY=${day}`, `${year}-01-01 09:00`, `${year}-03-31 23:59`, overflow),
+          expected[overflow].map(date => `${year}-${date}`)
+        );
+      });
+
+      it(`${year} 年以 ${day} 日為開始日期的每月規則（${overflow}）`, () => {
+        assert.deepEqual(
+          expand("FREQ=MONTHLY", `${year}-01-${day} 09:00`, `${year}-03-31 23:59`, overflow),
+          expected[overflow].map(date => `${year}-${date}`)
+        );
+      });
+    }
+  }
+});
+
+// 每年 2 月 29 日：非閏年依 overflow 移到 2/28、略過或順延到 3/1
+const leapDayCases: { name: string; rule: string; dtstart: string; through: string; expected: Record<MonthEndOverflow, string[]> }[] = [
+  {
+    name: "BYMONTH=2;BYMONTHDAY=29",
+    rule: "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29",
+    dtstart: "2024-02-29 09:00",
+    through: "2029-12-31 23:59",
+    expected: {
+      clamp: ["2024-02-29", "2025-02-28", "2026-02-28", "2027-02-28", "2028-02-29", "2029-02-28"],
+      skip: ["2024-02-29", "2028-02-29"],
+      roll: ["2024-02-29", "2025-03-01", "2026-03-01", "2027-03-01", "2028-02-29", "2029-03-01"],
+    },
+  },
+  {
+    name: "以 2/29 為開始日期",
+    rule: "FREQ=YEARLY",
+    dtstart: "2024-02-29 09:00",
+    through: "2029-12-31 23:59",
+    expected: {
+      clamp: ["2024-02-29", "2025-02-28", "2026-02-28", "2027-02-28", "2028-02-29", "2029-02-28"],
+      skip: ["2024-02-29", "2028-02-29"],
+      roll: ["2024-02-29", "2025-03-01", "2026-03-01", "2027-03-01", "2028-02-29", "2029-03-01"],
+    },
+  },
+  {
+    name: "跨越 2100 年（不是閏年）",
+    rule: "FREQ=YEARLY;INTERVAL=4;BYMONTH=2;BYMONTHDAY=29",
+    dtstart: "2096-02-29 09:00",
+    through: "2104-12-31 23:59",
+    expected: {
+      clamp: ["2096-02-29", "2100-02-28", "2104-02-29"],
+      skip: ["2096-02-29", "2104-02-29"],
+      roll: ["2096-02-29", "2100-03-01", "2104-02-29"],
+    },
+  },
+];
+
+describe("expandRRule 每年 2 月 29 日", () => {
+  for (const { name, rule, dtstart, through, expected } of leapDayCases) {
+    for (const overflow of ["clamp", "skip", "roll"] as const) {
+      it(`${name}（${overflow}）`, () => {
+        assert.deepEqual(expand(rule, dtstart, through, overflow), expected[overflow]);
+      });
+    }
+  }
+});
@@ -0,0 +1,376 @@
+import moment from "moment-timezone";
+
+// RFC 5545 RRULE 的子集：支援 FREQ、INTERVAL、BYDAY（含序數，例如 1TH、-1FR）、
+// BYMONTHDAY、BYMONTH、BYSETPOS、COUNT、UNTIL，週起始固定為星期一（WKST=MO）
+export const rruleFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RRuleFrequency = typeof rruleFrequencies[number];
+
+export const rruleWeekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type RRuleWeekday = typeof rruleWeekdays[number];
+
+export type RRuleByDay = {
+  weekday: RRuleWeekday;
+  ordinal?: number; // 第幾個（負數從月底/年底往回數），只用於 MONTHLY/YEARLY
+};
+
+export type RRule = {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: string; // ISO字串
+};
+
+// 指定的日期超過當月天數（例如 31 日遇到 30 天的月份、2 月 29 日遇到平年）時的處理方式
+// clamp: 改在當月最後一天；skip: 該期不發送（RFC 5545 的行為）；roll: 超過的天數順延到下個月
+export const monthEndOverflows = ["clamp", "skip", "roll"] as const;
+export type MonthEndOverflow = typeof monthEndOverflows[number];
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleError";
+  }
+}
+
+// recurringType 預設選項對應的規則，未設定 BYxxx 時依開始時間推算星期幾/日期
+export const recurringPresetRules: Record<string, string> = {
+  daily: "FREQ=DAILY",
+  weekly: "FREQ=WEEKLY",
+  monthly: "FREQ=MONTHLY",
+  yearly: "FREQ=YEARLY",
+};
+
+// moment 的 isoWeekday：1 = 星期一 ... 7 = 星期日
+const isoWeekdayOf: Record<RRuleWeekday, number> = {
+  MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7,
+};
+
+const supportedKeys = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "BYSETPOS", "COUNT", "UNTIL", "WKST"];
+
+// 單次展開最多檢查的週期數，避免不會產生結果的規則無限迴圈
+const MAX_PERIODS = 10000;
+
+function parseIntList(key: string, value: string, min: number, max: number): number[] {
+  return value.split(",").map(item => {
+    const n = Number(item);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new RRuleError(`${key} 的值無效: ${item}`);
+    }
+    return n;
+  });
+}
+
+// 解析 RRULE 字串，可帶或不帶 "RRULE:" 前綴；UNTIL 沒有時區時以 timezone 解讀
+export function parseRRule(input: string, timezone: string = "Asia/Taipei"): RRule {
+  const text = input.trim().replace(/^RRULE:/i, "");
+  if (!text) {
+    throw new RRuleError("RRULE 不可為空");
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of text.split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new RRuleError(`RRULE 格式錯誤: ${part}`);
+    }
+    const upperKey = key.toUpperCase();
+    if (!supportedKeys.includes(upperKey)) {
+      throw new RRuleError(`不支援的 RRULE 參數: ${key}`);
+    }
+    parts[upperKey] = value.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RRuleFrequency;
+  if (!rruleFrequencies.includes(freq)) {
+    throw new RRuleError(`FREQ 必須是 ${rruleFrequencies.join("/")}`);
+  }
+
+  if (parts.WKST && parts.WKST !== "MO") {
+    throw new RRuleError("目前只支援 WKST=MO");
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  if (parts.INTERVAL) {
+    const interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new RRuleError(`INTERVAL 必須是正整數: ${parts.INTERVAL}`);
+    }
+    rule.interval = interval;
+  }
+
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(",").map(item => {
+      const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) {
+        throw new RRuleError(`BYDAY 的值無效: ${item}`);
+      }
+      const byDay: RRuleByDay = { weekday: match[2] as RRuleWeekday };
+      if (match[1]) {
+        const ordinal = Number(match[1]);
+        if (ordinal === 0 || Math.abs(ordinal) > 53) {
+          throw new RRuleError(`BYDAY 的序數無效: ${item}`);
+        }
+        if (freq !== "MONTHLY" && freq !== "YEARLY") {
+          throw new RRuleError("BYDAY 的序數只能用於 MONTHLY 或 YEARLY");
+        }
+        byDay.ordinal = ordinal;
+      }
+      return byDay;
+    });
+  }
+
+  if (parts.BYMONTHDAY) {
+    if (freq === "WEEKLY") {
+      throw new RRuleError("WEEKLY 不能使用 BYMONTHDAY");
+    }
+    rule.byMonthDay = parseIntList("BYMONTHDAY", parts.BYMONTHDAY, 1, 31);
+  }
+
+  if (parts.BYMONTH) {
+    rule.byMonth = parseIntList("BYMONTH", parts.BYMONTH, 1, 12);
+    if (rule.byMonth.some(m => m < 0)) {
+      throw new RRuleError("BYMONTH 不能是負數");
+    }
+  }
+
+  if (parts.BYSETPOS) {
+    rule.bySetPos = parseIntList("BYSETPOS", parts.BYSETPOS, 1, 366);
+  }
+
+  if (parts.COUNT && parts.UNTIL) {
+    throw new RRuleError("COUNT 與 UNTIL 不能同時使用");
+  }
+
+  if (parts.COUNT) {
+    const count = Number(parts.COUNT);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new RRuleError(`COUNT 必須是正整數: ${parts.COUNT}`);
+    }
+    rule.count = count;
+  }
+
+  if (parts.UNTIL) {
+    let until: moment.Moment;
+    if (/^\d{8}T\d{6}Z$/.test(parts.UNTIL)) {
+      until = moment.utc(parts.UNTIL, "YYYYMMDD[T]HHmmss[Z]", true);
+    } else if (/^\d{8}T\d{6}$/.test(parts.UNTIL)) {
+      until = moment.tz(parts.UNTIL, "YYYYMMDD[T]HHmmss", true, timezone);
+    } else if (/^\d{8}$/.test(parts.UNTIL)) {
+      // 只有日期時包含當天整天
+      until = moment.tz(parts.UNTIL, "YYYYMMDD", true, timezone).endOf("day");
+    } else {
+      throw new RRuleError(`UNTIL 格式錯誤: ${parts.UNTIL}`);
+    }
+    if (!until.isValid()) {
+      throw new RRuleError(`UNTIL 日期無效: ${parts.UNTIL}`);
+    }
+    rule.until = until.toISOString();
+  }
+
+  return rule;
+}
+
+export function isValidRRule(input: string): boolean {
+  try {
+    parseRRule(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 將規則轉回 RRULE 字串（不含 "RRULE:" 前綴）
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ""}${d.weekday}`).join(",")}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${moment.utc(rule.until).format("YYYYMMDD[T]HHmmss[Z]")}`);
+  return parts.join(";");
+}
+
+// 範圍內符合 BYDAY 的日期；有序數時只取範圍內第 N 個（負數從後面數）
+function weekdayDates(scopeStart: moment.Moment, scopeEnd: moment.Moment, byDay: RRuleByDay[]): moment.Moment[] {
+  const result: moment.Moment[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const matches: moment.Moment[] = [];
+    const day = scopeStart.clone();
+    while (day.isoWeekday() !== isoWeekdayOf[weekday]) day.add(1, "day");
+    while (!day.isAfter(scopeEnd, "day")) {
+      matches.push(day.clone());
+      day.add(7, "days");
+    }
+    if (ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (match) result.push(match);
+    }
+  }
+  return result;
+}
+
+// 當月的第 day 天；超過當月天數時依 overflow 處理，skip 時回傳 null
+function dayOfMonth(monthStart: moment.Moment, day: number, overflow: MonthEndOverflow): moment.Moment | null {
+  const daysInMonth = monthStart.daysInMonth();
+  if (day <= daysInMonth) return monthStart.clone().date(day);
+
+  switch (overflow) {
+    case "clamp":
+      return monthStart.clone().date(daysInMonth);
+    case "roll":
+      return monthStart.clone().add(day - 1, "days");
+    case "skip":
+    default:
+      return null;
+  }
+}
+
+// 單一月份內符合 BYMONTHDAY / BYDAY 的日期，兩者都沒有時沿用開始日期的日
+// 負數的 BYMONTHDAY 從月底往回數，不會超過當月天數
+function monthDates(rule: RRule, dtstart: moment.Moment, monthStart: moment.Moment, overflow: MonthEndOverflow): moment.Moment[] {
+  const daysInMonth = monthStart.daysInMonth();
+
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay
+      .map(d => (d > 0 ? dayOfMonth(monthStart, d, overflow) : d >= -daysInMonth ? monthStart.clone().date(daysInMonth + d + 1) : null))
+      .filter((d): d is moment.Moment => !!d);
+    // BYMONTHDAY 與 BYDAY 同時存在時取交集
+    return rule.byDay?.length
+      ? days.filter(day => rule.byDay!.some(b => isoWeekdayOf[b.weekday] === day.isoWeekday()))
+      : days;
+  }
+
+  if (rule.byDay?.length) {
+    return weekdayDates(monthStart, monthStart.clone().endOf("month"), rule.byDay);
+  }
+
+  const day = dayOfMonth(monthStart, dtstart.date(), overflow);
+  return day ? [day] : [];
+}
+
+// 一個週期（天/週/月/年）內的候選日期
+function periodDates(rule: RRule, dtstart: moment.Moment, periodStart: moment.Moment, overflow: MonthEndOverflow): moment.Moment[] {
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = periodStart.clone();
+      if (rule.byDay?.length && !rule.byDay.some(b => isoWeekdayOf[b.weekday] === day.isoWeekday())) return [];
+      if (rule.byMonthDay?.length && !rule.byMonthDay.some(d => (d > 0 ? d : day.daysInMonth() + d + 1) === day.date())) return [];
+      return [day];
+    }
+
+    case "WEEKLY": {
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map(b => isoWeekdayOf[b.weekday])
+        : [dtstart.isoWeekday()];
+      return weekdays.map(w => periodStart.clone().isoWeekday(w));
+    }
+
+    case "MONTHLY":
+      // 以週期的月份判斷 BYMONTH，順延到下個月的日期仍屬於原本的月份
+      if (rule.byMonth?.length && !rule.byMonth.includes(periodStart.month() + 1)) return [];
+      return monthDates(rule, dtstart, periodStart, overflow);
+
+    case "YEARLY": {
+      if (rule.byMonth?.length) {
+        return rule.byMonth.flatMap(m => monthDates(rule, dtstart, periodStart.clone().month(m - 1).startOf("month"), overflow));
+      }
+      if (rule.byMonthDay?.length) {
+        return Array.from({ length: 12 }, (_, m) => m)
+          .flatMap(m => monthDates(rule, dtstart, periodStart.clone().month(m).startOf("month"), overflow));
+      }
+      if (rule.byDay?.length) {
+        // 沒有 BYMONTH 時序數以整年計算，例如 -1FR 為當年最後一個星期五
+        return weekdayDates(periodStart, periodStart.clone().endOf("year"), rule.byDay);
+      }
+      const monthStart = periodStart.clone().month(dtstart.month()).startOf("month");
+      return monthDates(rule, dtstart, monthStart, overflow);
+    }
+  }
+}
+
+const periodUnits: Record<RRuleFrequency, { startOf: moment.unitOfTime.StartOf; step: moment.unitOfTime.DurationConstructor }> = {
+  DAILY: { startOf: "day", step: "days" },
+  WEEKLY: { startOf: "isoWeek", step: "weeks" },
+  MONTHLY: { startOf: "month", step: "months" },
+  YEARLY: { startOf: "year", step: "years" },
+};
+
+// 展開規則在 (after, through] 區間內的發送時間點，時分沿用 dtstart；
+// dtstart 本身若符合規則即為第一次，COUNT 從 dtstart 開始計算
+// overflow 決定 29～31 日遇到較短月份時的處理方式，預設與 RFC 5545 相同略過該期
+export function expandRRule(
+  rule: RRule,
+  dtstart: moment.Moment,
+  after: moment.Moment | null,
+  through: moment.Moment,
+  limit: number = 500,
+  overflow: MonthEndOverflow = "skip"
+): moment.Moment[] {
+  const start = dtstart.clone().startOf("minute");
+  const { startOf, step } = periodUnits[rule.freq];
+  const firstPeriod = start.clone().startOf(startOf);
+  const end = rule.until ? moment.min(through, moment(rule.until).tz(start.tz() || "Asia/Taipei")) : through;
+
+  // 沒有 COUNT 時可直接跳到 after 附近的週期開始計算
+  let period = 0;
+  if (!rule.count && after && after.isAfter(firstPeriod)) {
+    period = Math.max(0, Math.floor(after.diff(firstPeriod, step) / rule.interval) - 1);
+  }
+
+  const results: moment.Moment[] = [];
+  let emitted = 0;
+  let previous: moment.Moment | null = null;
+
+  for (let i = 0; i < MAX_PERIODS; i++, period++) {
+    const periodStart = firstPeriod.clone().add(period * rule.interval, step);
+    if (periodStart.isAfter(end)) break;
+
+    const seen = new Set<string>();
+    let dates = periodDates(rule, start, periodStart, overflow)
+      .filter(d => !rule.byMonth?.length || rule.freq === "YEARLY" || rule.freq === "MONTHLY" || rule.byMonth.includes(d.month() + 1))
+      .sort((a, b) => a.valueOf() - b.valueOf())
+      .filter(d => {
+        const key = d.format("YYYY-MM-DD");
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (rule.bySetPos?.length) {
+      const all = dates;
+      dates = rule.bySetPos
+        .map(pos => (pos > 0 ? all[pos - 1] : all[all.length + pos]))
+        .filter((d): d is moment.Moment => !!d)
+        .sort((a, b) => a.valueOf() - b.valueOf());
+    }
+
+    for (const date of dates) {
+      const occurrence = date.clone().hour(start.hour()).minute(start.minute()).second(0).millisecond(0);
+      if (occurrence.isBefore(start)) continue;
+      // 順延到下個月的日期可能與下一期的日期重複
+      if (previous && !occurrence.isAfter(previous)) continue;
+      if (occurrence.isAfter(end)) return results;
+      if (rule.count && emitted >= rule.count) return results;
+      emitted++;
+      previous = occurrence;
+
+      if (after && !occurrence.isAfter(after)) continue;
+      results.push(occurrence);
+      if (results.length >= limit) return results;
+    }
+  }
+
+  return results;
+}
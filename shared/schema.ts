@@ -1,17 +1,91 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidRRule, monthEndOverflows } from "./rrule";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "./timezone";
+import { FlexValidationError, messageFormats, parseFlexContent } from "./flex";
+import { MAX_ATTACHMENTS, MessageAttachment } from "./attachments";
+import { TemplateVariable, VARIABLE_NAME_PATTERN, templateVariableTypes, validateTemplate } from "./templateRender";
+import { currencyCodes, isValidAmountTemplate, normalizeAmount, parseAmount } from "./currency";
+
+// 群組發送規則：strict 失敗即計為失敗、best_effort 失敗仍視為成功、disabled 不發送
+export const deliveryPolicies = ["strict", "best_effort", "disabled"] as const;
+export type DeliveryPolicy = typeof deliveryPolicies[number];
+
+// 週期性訊息錯過發送（例如伺服器停機）時的處理方式
+// skip: 略過錯過的發送；send_once_late: 只補發最近一次；send_all_missed: 每次都補發
+export const missedRunPolicies = ["skip", "send_once_late", "send_all_missed"] as const;
+export type MissedRunPolicy = typeof missedRunPolicies[number];
+
+// 發送日遇到假日（國定假日或週末）時的處理方式
+// none: 照常發送；skip: 不發送；next_business_day / previous_business_day: 移到下一個/上一個工作日
+export const holidayRules = ["none", "skip", "next_business_day", "previous_business_day"] as const;
+export type HolidayRule = typeof holidayRules[number];
+
+// 群組狀態：active 可發送；pending 由 Webhook 發現、等待核准；inactive Bot 已離開群組
+export const groupStatuses = ["active", "pending", "inactive"] as const;
+export type GroupStatus = typeof groupStatuses[number];
 
 // LINE Group schema
 export const groups = pgTable("groups", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   lineId: text("line_id").notNull().unique(),
+  deliveryPolicy: text("delivery_policy").notNull().default("strict"),
+  timezone: text("timezone").notNull().default(DEFAULT_TIMEZONE), // 群組成員所在時區，作為新訊息的預設時區
+  variables: json("variables").$type<Record<string, string>>().notNull().default({}), // 範本變數的群組預設值，例如 invoice_no
+  status: text("status").notNull().default("active"), // 'active', 'pending', 'inactive'
+  memberCount: integer("member_count"), // 群組人數，由 Webhook 事件更新
+  joinedAt: text("joined_at"), // Bot 加入群組的時間
+  leftAt: text("left_at"), // Bot 離開群組的時間
+  unreachable: boolean("unreachable").notNull().default(false), // 連續推播失敗（Bot 不在群組內），不再發送
+  notMemberFailures: integer("not_member_failures").notNull().default(0), // 連續「Bot 不在群組內」的推播失敗次數
+  unreachableAt: text("unreachable_at"), // 標記為無法送達的時間
+});
+
+const timezoneSchema = z.string().refine(isValidTimeZone, "不支援的時區");
+
+// 範本變數值：變數名稱對應發送時帶入的文字
+const variableValuesSchema = z.record(z.string()).refine(
+  values => Object.keys(values).every(name => VARIABLE_NAME_PATTERN.test(name)),
+  "變數名稱只能包含英數字、底線與點，且不能以數字開頭"
+);
+
+// 範本宣告的變數：名稱不可重複，型別決定填寫方式
+const templateVariableSchema = z.object({
+  name: z.string().regex(VARIABLE_NAME_PATTERN, "變數名稱只能包含英數字、底線與點，且不能以數字開頭"),
+  label: z.string().min(1, "變數說明不能為空"),
+  type: z.enum(templateVariableTypes).default("text"),
+});
+
+// 內容中的 {{ }} 運算式逐項回報語法錯誤
+const checkTemplateSyntax = (value: string, ctx: z.RefinementCtx) =>
+  validateTemplate(value).forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+
+// Flex JSON 逐項回報結構錯誤，方便在編輯器中修正
+const flexContentSchema = z.string().superRefine((value, ctx) => {
+  checkTemplateSyntax(value, ctx);
+  try {
+    parseFlexContent(value);
+  } catch (err) {
+    if (!(err instanceof FlexValidationError)) throw err;
+    err.errors.forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+  }
 });
 
 export const insertGroupSchema = z.object({
   name: z.string().min(1, "Group name is required"),
   lineId: z.string().min(1, "LINE ID is required"),
+  deliveryPolicy: z.enum(deliveryPolicies).default("strict"),
+  timezone: timezoneSchema.default(DEFAULT_TIMEZONE),
+  variables: variableValuesSchema.default({}),
+  status: z.enum(groupStatuses).default("active"),
+  memberCount: z.number().int().min(0).nullable().optional(),
+  joinedAt: z.string().nullable().optional(),
+  leftAt: z.string().nullable().optional(),
+  unreachable: z.boolean().optional(),
+  notMemberFailures: z.number().int().min(0).optional(),
+  unreachableAt: z.string().nullable().optional(),
 });
 
 // Message Template schema
@@ -20,12 +94,39 @@ export const templates = pgTable("templates", {
   name: text("name").notNull(),
   content: text("content").notNull(),
   type: text("type").notNull(), // e.g., 'meeting', 'holiday', 'project'
+  format: text("format").notNull().default("text"), // 'text' or 'flex'
+  flexContent: text("flex_content"), // Flex Message 容器（bubble/carousel）的 JSON
+  variables: json("variables").$type<TemplateVariable[]>().notNull().default([]), // 內容中 {{name}} 變數的宣告
+  version: integer("version").notNull().default(1), // 目前的版本號，每次修改加一
 });
 
+// 範本版本紀錄：每個版本的完整內容，修改範本時自動新增，可用來比較差異與還原
+export const templateVersions = pgTable("template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  type: text("type").notNull(),
+  format: text("format").notNull().default("text"),
+  flexContent: text("flex_content"),
+  variables: json("variables").$type<TemplateVariable[]>().notNull().default([]),
+  restoredFrom: integer("restored_from"), // 由哪個版本還原而來，一般修改時為空
+  createdAt: text("created_at").notNull(),
+  templateDeletedAt: text("template_deleted_at"), // 範本已刪除的時間；版本紀錄保留，供仍指向此版本的訊息查詢
+}, (table) => [
+  unique("template_versions_template_version_key").on(table.templateId, table.version),
+]);
+
 export const insertTemplateSchema = z.object({
   name: z.string().min(1, "Template name is required"),
-  content: z.string().min(1, "Content is required"),
+  content: z.string().min(1, "Content is required").superRefine(checkTemplateSyntax),
   type: z.string().min(1, "Type is required"),
+  format: z.enum(messageFormats).default("text"),
+  flexContent: flexContentSchema.nullable().optional(),
+  variables: z.array(templateVariableSchema)
+    .refine(variables => new Set(variables.map(v => v.name)).size === variables.length, "變數名稱不可重複")
+    .default([]),
 });
 
 // Message schema - 使用字符串表示日期，這樣更容易與前端交互
@@ -36,34 +137,95 @@ export const messages = pgTable("messages", {
   scheduledTime: text("scheduled_time").notNull(), // 改用text而不是timestamp
   endTime: text("end_time"),                       // 改用text而不是timestamp
   type: text("type").notNull(), // 'single' or 'periodic'
-  status: text("status").notNull().default("scheduled"), // 'scheduled', 'sent', 'failed'
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'paused', 'sent', 'partial', 'failed', 'completed', 'expired'
   createdAt: text("created_at").notNull().default(''),
   groupIds: text("group_ids").array().notNull(), // Array of group IDs
-  currency: text("currency"), // 'TWD', 'AUD', 'USD'
-  amount: text("amount"), // 金額
+  currency: text("currency"), // ISO 4217 幣別代碼，例如 TWD、AUD、USD
+  amount: text("amount"), // 金額（不含千分位的數字字串）
 
   // 週期性發送相關字段
   recurringType: text("recurring_type"), // 'daily', 'weekly', 'monthly', 'yearly'
+  rrule: text("rrule"), // RFC 5545 RRULE，有設定時優先於 recurringType
   lastSent: text("last_sent"), // 上次發送時間，用於計算下次發送時間
   recurringActive: boolean("recurring_active").default(false), // 標記是否啟用週期性發送
+  missedRunPolicy: text("missed_run_policy").notNull().default("send_once_late"), // 錯過發送時的處理方式
+  maxLatenessMinutes: integer("max_lateness_minutes"), // 超過此延遲（分鐘）不補發，空值表示不限制
+  until: text("until"), // 週期結束時間，之後不再發送
+  maxOccurrences: integer("max_occurrences"), // 最多發送次數，空值表示不限制
+  holidayRule: text("holiday_rule").notNull().default("none"), // 遇到假日時的處理方式
+  monthEndOverflow: text("month_end_overflow").notNull().default("clamp"), // 29～31 日遇到較短月份時的處理方式
+  timezone: text("timezone").notNull().default(DEFAULT_TIMEZONE), // 排程時間與週期規則以此時區的當地時間計算
+  windowJitter: boolean("window_jitter").notNull().default(false), // 在發送時段內隨機延後發送，分散大量發送
+  format: text("format").notNull().default("text"), // 'text' or 'flex'，flex 時 content 作為替代文字
+  flexContent: text("flex_content"), // Flex Message 容器（bubble/carousel）的 JSON
+  attachments: json("attachments").$type<MessageAttachment[]>().notNull().default([]), // 與內容一起送出的圖片、貼圖
+  variables: json("variables").$type<Record<string, string>>().notNull().default({}), // 範本變數填寫的值，優先於群組預設值
+  occurrenceCount: integer("occurrence_count").notNull().default(0), // 已發送次數
+  templateId: integer("template_id"), // 建立時使用的範本，空值表示未使用範本
+  templateVersion: integer("template_version"), // 建立時使用的範本版本
+  templateLinked: boolean("template_linked").notNull().default(false), // 連結範本：發送時使用範本最新的內容，而非建立時的複本
+
+  // 歷史紀錄相關字段 - 單次訊息發送後封存而非刪除
+  sentAt: text("sent_at"), // 實際發送（嘗試）時間
+  archived: boolean("archived").notNull().default(false), // 已封存的訊息只出現在歷史紀錄
 });
 
 // 對於Insert操作，使用自定義的Zod schema以確保更好的驗證
+// 附件的 LINE 訊息物件：圖片需要公開網址，貼圖為數字的 packageId/stickerId
+export const messageAttachmentSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("image"),
+    originalContentUrl: z.string().url("圖片網址格式錯誤"),
+    previewImageUrl: z.string().url("預覽圖網址格式錯誤"),
+  }),
+  z.object({
+    type: z.literal("sticker"),
+    packageId: z.string().regex(/^\d+$/, "packageId 必須是數字"),
+    stickerId: z.string().regex(/^\d+$/, "stickerId 必須是數字"),
+  }),
+]);
+
+// 金額允許千分位輸入，儲存時去掉逗號；空白視為未填寫
+const amountSchema = z.string()
+  .refine(value => value.trim() === "" || parseAmount(value) !== null, "金額必須是數字")
+  .transform(normalizeAmount);
+
 export const insertMessageSchema = z.object({
   title: z.string(),
-  content: z.string(),
+  content: z.string().superRefine(checkTemplateSyntax),
   scheduledTime: z.string(), // 明確使用string類型
   endTime: z.string().nullable().optional(), // 明確使用string類型，且可為空
   type: z.string(),
   status: z.string().default("scheduled"),
   groupIds: z.array(z.string()),
-  currency: z.string().nullable().optional(),
-  amount: z.string().nullable().optional(),
+  currency: z.enum(currencyCodes).nullable().optional(),
+  amount: amountSchema.nullable().optional(),
 
   // 週期性發送相關字段
   recurringType: z.enum(['daily', 'weekly', 'monthly', 'yearly']).nullable().optional(),
+  rrule: z.string().refine(isValidRRule, "RRULE 格式錯誤或包含不支援的參數").nullable().optional(),
   lastSent: z.string().nullable().optional(),
   recurringActive: z.boolean().default(false),
+  missedRunPolicy: z.enum(missedRunPolicies).default("send_once_late"),
+  maxLatenessMinutes: z.number().int().positive().nullable().optional(),
+  until: z.string().nullable().optional(),
+  maxOccurrences: z.number().int().positive().nullable().optional(),
+  occurrenceCount: z.number().int().min(0).optional(),
+  holidayRule: z.enum(holidayRules).default("none"),
+  monthEndOverflow: z.enum(monthEndOverflows).default("clamp"),
+  timezone: timezoneSchema.default(DEFAULT_TIMEZONE),
+  windowJitter: z.boolean().default(false),
+  format: z.enum(messageFormats).default("text"),
+  flexContent: flexContentSchema.nullable().optional(),
+  attachments: z.array(messageAttachmentSchema).max(MAX_ATTACHMENTS, `附件最多 ${MAX_ATTACHMENTS} 個`).default([]),
+  variables: variableValuesSchema.default({}),
+  templateId: z.number().int().positive().nullable().optional(),
+  templateVersion: z.number().int().positive().nullable().optional(),
+  templateLinked: z.boolean().default(false),
+
+  // 歷史紀錄相關字段
+  sentAt: z.string().nullable().optional(),
+  archived: z.boolean().optional(),
 });
 
 // Settings schema
@@ -73,6 +235,8 @@ export const settings = pgTable("settings", {
   lineChannelSecret: text("line_channel_secret"),
   lastSynced: text("last_synced"), // 改用text而不是timestamp
   isConnected: boolean("is_connected").default(false),
+  amountTemplate: text("amount_template"), // 金額附加在訊息內容時的格式，空值使用預設格式
+  adminUserIds: json("admin_user_ids").$type<string[]>().notNull().default([]), // 可在群組中執行管理指令的 LINE 使用者 ID
 });
 
 // 直接使用基本schema
@@ -81,6 +245,70 @@ export const insertSettingsSchema = z.object({
   lineChannelSecret: z.string().optional(),
   lastSynced: z.string().optional(),
   isConnected: z.boolean().default(false),
+  amountTemplate: z.string().refine(isValidAmountTemplate, "金額格式必須包含 {amount}").nullable().optional(),
+  adminUserIds: z.array(z.string().regex(/^U[0-9a-f]{32}$/, "LINE 使用者 ID 格式錯誤")).optional(),
+});
+
+// Delivery log schema - 記錄每一次LINE推播嘗試（每個群組、每次重試各一筆）
+export const deliveries = pgTable("deliveries", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id"), // 測試發送等非排程訊息時為空
+  groupId: integer("group_id").notNull(),
+  lineRequestId: text("line_request_id"), // LINE回應標頭 X-Line-Request-Id
+  httpStatus: integer("http_status"), // 連線失敗時為空
+  errorBody: text("error_body"), // 失敗時的回應內容或錯誤訊息
+  attempt: integer("attempt").notNull().default(1), // 第幾次嘗試（含重試）
+  success: boolean("success").notNull().default(false),
+  attemptedAt: text("attempted_at").notNull(), // 送出請求的時間
+  respondedAt: text("responded_at"), // 收到回應的時間
+});
+
+// 排程發送佇列：每則訊息的每一次應發送時間（occurrence）只會有一筆工作
+export const sendJobStatuses = ["pending", "running", "done", "failed", "expired"] as const;
+export type SendJobStatus = typeof sendJobStatuses[number];
+
+export const sendJobs = pgTable("send_jobs", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  occurrenceAt: text("occurrence_at").notNull(), // 這次應發送的時間點
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'done', 'failed', 'expired'
+  runAt: text("run_at").notNull(), // 最早可被領取的時間，重試時往後延
+  expiresAt: text("expires_at"), // 發送時段結束時間，超過仍未發送即標記為過期；空值表示不限制
+  lockedBy: text("locked_by"), // 領取此工作的程序
+  lockedUntil: text("locked_until"), // 超過此時間仍未完成，視為程序中斷，可被重新領取
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: text("created_at").notNull(),
+  completedAt: text("completed_at"),
+}, (table) => [
+  unique("send_jobs_message_occurrence_key").on(table.messageId, table.occurrenceAt),
+]);
+
+// 假日行事曆：國定假日（放假）與調整上班日（補班），日期為台灣日期
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull().unique(), // YYYY-MM-DD
+  name: text("name").notNull(),
+  isWorkday: boolean("is_workday").notNull().default(false), // true 表示補班日（週末但需上班）
+});
+
+export const insertHolidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式須為 YYYY-MM-DD"),
+  name: z.string().min(1, "名稱不能為空"),
+  isWorkday: z.boolean().default(false),
+});
+
+// 群組成員傳給 Bot 的訊息（文字、圖片），由 Webhook 寫入，用於群組的對話紀錄
+export const inboundMessages = pgTable("inbound_messages", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull(),
+  lineMessageId: text("line_message_id").notNull().unique(), // LINE 的訊息 ID，Webhook 重送時不重複寫入
+  lineUserId: text("line_user_id"), // 發送者，使用者未同意時為空
+  type: text("type").notNull(), // 'text', 'image'
+  text: text("text"),
+  mediaFile: text("media_file"), // 圖片下載到媒體庫的檔名，下載失敗時為空
+  quotedMessageId: text("quoted_message_id"), // 回覆（引用）的訊息 ID
+  receivedAt: text("received_at").notNull(), // Webhook 事件的時間
 });
 
 // Type definitions
@@ -89,6 +317,7 @@ export type InsertGroup = z.infer<typeof insertGroupSchema>;
 
 export type Template = typeof templates.$inferSelect;
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+export type TemplateVersion = typeof templateVersions.$inferSelect;
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
@@ -96,6 +325,55 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Settings = typeof settings.$inferSelect;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 
+export type Holiday = typeof holidays.$inferSelect;
+// 與 insertHolidaySchema 對應，匯入行事曆時由伺服器直接建立
+export type InsertHoliday = {
+  date: string;
+  name: string;
+  isWorkday?: boolean;
+};
+
+export type Delivery = typeof deliveries.$inferSelect;
+// 發送紀錄僅由伺服器內部寫入，不經過請求驗證
+export type InsertDelivery = {
+  messageId?: number | null;
+  groupId: number;
+  lineRequestId?: string | null;
+  httpStatus?: number | null;
+  errorBody?: string | null;
+  attempt?: number;
+  success?: boolean;
+  attemptedAt: string;
+  respondedAt?: string | null;
+};
+
+export type InboundMessage = typeof inboundMessages.$inferSelect;
+// 只由 Webhook 寫入
+export type InsertInboundMessage = {
+  groupId: number;
+  lineMessageId: string;
+  lineUserId?: string | null;
+  type: "text" | "image";
+  text?: string | null;
+  mediaFile?: string | null;
+  quotedMessageId?: string | null;
+  receivedAt: string;
+};
+
+// 群組對話紀錄的一筆：我們的推播（outbound）或群組成員的訊息（inbound），依時間排列
+export type ConversationEntry =
+  | { direction: "outbound"; at: string; delivery: Delivery; message?: Pick<Message, "id" | "title" | "content"> }
+  | { direction: "inbound"; at: string; inbound: InboundMessage };
+
+export type SendJob = typeof sendJobs.$inferSelect;
+// 佇列工作僅由排程器寫入
+export type InsertSendJob = {
+  messageId: number;
+  occurrenceAt: string;
+  runAt: string;
+  expiresAt?: string | null;
+};
+
 // Frontend state types
 export type MessageFormData = {
   title: string;
@@ -107,10 +385,24 @@ export type MessageFormData = {
   scheduledDate: Date;
   startTime: string;
   endTime: string;
-  currency?: string; // 'TWD', 'AUD', 'USD'
+  currency?: string; // ISO 4217 幣別代碼
   amount?: string; // 金額
 
   // 週期性發送選項
   recurringType?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  rrule?: string; // 空字串表示使用 recurringType 預設規則
   recurringActive?: boolean;
+  missedRunPolicy?: 'skip' | 'send_once_late' | 'send_all_missed';
+  maxLatenessMinutes?: string; // 空字串表示不限制
+  endMode?: 'never' | 'until' | 'count';
+  untilDate?: string; // YYYY-MM-DD
+  maxOccurrences?: string;
+  holidayRule?: 'none' | 'skip' | 'next_business_day' | 'previous_business_day';
+  monthEndOverflow?: 'clamp' | 'skip' | 'roll';
+  timezone?: string; // IANA 時區，例如 Australia/Sydney
+  windowJitter?: boolean;
+  format?: 'text' | 'flex';
+  flexContent?: string;
+  attachments?: MessageAttachment[];
+  variables?: Record<string, string>;
 };
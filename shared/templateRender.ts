@@ -0,0 +1,284 @@
+// 範本變數：內容中以 {{name}} 標示的佔位符，發送時依群組帶入實際的值
+// 佔位符也可以是運算式，以 | 串接篩選器，例如 {{ now | add(1, "month") | format("M月") }}
+// 前端的變數填寫表單與伺服器發送使用同一套解析規則
+import moment from "moment-timezone";
+
+// 變數型別決定填寫時的輸入方式與格式：
+// text 任意文字；number 數字；amount 金額（千分位）；date 日期（YYYY/MM/DD）；month 月份（例如 7月）
+export const templateVariableTypes = ["text", "number", "amount", "date", "month"] as const;
+export type TemplateVariableType = typeof templateVariableTypes[number];
+
+export type TemplateVariable = {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+};
+
+// 發送時自動帶入的內建變數，不需要填寫
+// now 為本次發送的時間點（訊息時區），occurrence_number 為週期性訊息的第幾次發送
+export const builtInVariables: Record<string, string> = {
+  "group.name": "群組名稱",
+  now: "本次發送時間",
+  occurrence_number: "第幾次發送",
+};
+
+// 發送時的運算式環境
+export type RenderContext = {
+  now?: moment.Moment;
+  occurrenceNumber?: number;
+};
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.]*$/;
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+// 日期型別變數的值可以直接套用日期篩選器
+const DATE_VALUE_FORMATS = ["YYYY/MM/DD", "YYYY-MM-DD"];
+const DEFAULT_DATE_FORMAT = "YYYY/MM/DD";
+const dateUnits = ["year", "years", "month", "months", "week", "weeks", "day", "days", "hour", "hours", "minute", "minutes"];
+
+export class TemplateRenderError extends Error {
+  constructor(public missing: string[]) {
+    super(`範本變數未提供值：${missing.join("、")}`);
+    this.name = "TemplateRenderError";
+  }
+}
+
+// 運算式語法錯誤或篩選器用在不適用的值上
+export class TemplateExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateExpressionError";
+  }
+}
+
+type FilterCall = { name: string; args: (string | number)[] };
+type Expression = { head: string; filters: FilterCall[] };
+
+// 以分隔字元切開，忽略引號內的分隔字元
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (quote) throw new TemplateExpressionError(`引號未結束：${source}`);
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseArgument(source: string): string | number {
+  if (/^(["']).*\1$/s.test(source)) return source.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(source)) return Number(source);
+  throw new TemplateExpressionError(`參數必須是數字或加上引號的文字：${source}`);
+}
+
+const filterArity: Record<string, number> = { format: 1, add: 2, subtract: 2, startOf: 1, endOf: 1 };
+
+function parseExpression(source: string): Expression {
+  const [head, ...filterSources] = splitOutsideQuotes(source, "|");
+  if (!VARIABLE_NAME_PATTERN.test(head)) {
+    throw new TemplateExpressionError(`變數名稱格式錯誤：{{${source}}}`);
+  }
+
+  const filters = filterSources.map(filterSource => {
+    const match = filterSource.match(/^([A-Za-z_]\w*)\s*(?:\((.*)\))?$/s);
+    if (!match) throw new TemplateExpressionError(`篩選器格式錯誤：${filterSource}`);
+
+    const [, name, argSource] = match;
+    if (!(name in filterArity)) throw new TemplateExpressionError(`不支援的篩選器：${name}`);
+
+    const args = argSource?.trim() ? splitOutsideQuotes(argSource, ",").map(parseArgument) : [];
+    if (args.length !== filterArity[name]) {
+      throw new TemplateExpressionError(`${name} 需要 ${filterArity[name]} 個參數`);
+    }
+    if ((name === "add" || name === "subtract") && typeof args[0] !== "number") {
+      throw new TemplateExpressionError(`${name} 的第一個參數必須是數字`);
+    }
+    const unit = name === "add" || name === "subtract" ? args[1] : name === "format" ? null : args[0];
+    if (unit !== null && !dateUnits.includes(String(unit))) {
+      throw new TemplateExpressionError(`不支援的時間單位：${unit}`);
+    }
+    return { name, args };
+  });
+
+  return { head, filters };
+}
+
+// 依出現順序列出內容中的變數名稱（運算式取開頭的變數，不重複）；格式錯誤的佔位符略過
+export function extractPlaceholders(...contents: (string | null | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const content of contents) {
+    for (const match of (content || "").matchAll(PLACEHOLDER)) {
+      try {
+        names.add(parseExpression(match[1]).head);
+      } catch {
+        // 由 validateTemplate 回報
+      }
+    }
+  }
+  return Array.from(names);
+}
+
+// 檢查內容中所有佔位符的語法，回傳錯誤訊息，空陣列表示通過
+export function validateTemplate(content: string | null | undefined): string[] {
+  const errors: string[] = [];
+  for (const match of (content || "").matchAll(PLACEHOLDER)) {
+    try {
+      parseExpression(match[1]);
+    } catch (err) {
+      if (!(err instanceof TemplateExpressionError)) throw err;
+      errors.push(err.message);
+    }
+  }
+  return errors;
+}
+
+// 需要使用者提供值的變數（排除內建變數）
+export function userPlaceholders(...contents: (string | null | undefined)[]): string[] {
+  return extractPlaceholders(...contents).filter(name => !(name in builtInVariables));
+}
+
+// 合併變數值：群組預設值 < 訊息填寫的值，空字串視為未填寫
+export function mergeVariableValues(...sources: (Record<string, string> | null | undefined)[]): Record<string, string> {
+  const merged: Record<string, string> = {};
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source || {})) {
+      if (value !== "") merged[name] = value;
+    }
+  }
+  return merged;
+}
+
+// 依內容中的變數名稱整理變數宣告：保留已宣告的設定，未宣告的視為文字
+export function syncTemplateVariables(names: string[], declared: TemplateVariable[] = []): TemplateVariable[] {
+  return names.map(name => declared.find(v => v.name === name) || { name, label: name, type: "text" });
+}
+
+// 找出沒有值的變數：每個目標群組都必須能從群組預設值或訊息填寫的值取得
+export function findMissingVariables(
+  names: string[],
+  values: Record<string, string> | null | undefined,
+  groupDefaults: (Record<string, string> | null | undefined)[]
+): string[] {
+  const sources = groupDefaults.length > 0
+    ? groupDefaults.map(defaults => mergeVariableValues(defaults, values))
+    : [mergeVariableValues(values)];
+  return names.filter(name => sources.some(source => source[name] === undefined));
+}
+
+function evaluate(expression: Expression, values: Record<string, string>, context: RenderContext): string {
+  const zone = context.now?.tz() || undefined;
+  let value: string | moment.Moment;
+  if (expression.head === "now") {
+    value = (context.now || moment()).clone();
+  } else if (expression.head === "occurrence_number") {
+    value = String(context.occurrenceNumber ?? 1);
+  } else {
+    value = values[expression.head];
+  }
+
+  for (const { name, args } of expression.filters) {
+    // 篩選器都是日期運算；文字值必須是 YYYY/MM/DD 格式的日期
+    if (typeof value === "string") {
+      const date = zone ? moment.tz(value, DATE_VALUE_FORMATS, true, zone) : moment(value, DATE_VALUE_FORMATS, true);
+      if (!date.isValid()) {
+        throw new TemplateExpressionError(`${name} 只能用於日期（{{${expression.head}}} 的值為「${value}」）`);
+      }
+      value = date;
+    }
+
+    switch (name) {
+      case "format":
+        value = value.format(String(args[0]));
+        break;
+      case "add":
+        value = value.clone().add(args[0] as number, args[1] as moment.unitOfTime.DurationConstructor);
+        break;
+      case "subtract":
+        value = value.clone().subtract(args[0] as number, args[1] as moment.unitOfTime.DurationConstructor);
+        break;
+      case "startOf":
+        value = value.clone().startOf(args[0] as moment.unitOfTime.StartOf);
+        break;
+      case "endOf":
+        value = value.clone().endOf(args[0] as moment.unitOfTime.StartOf);
+        break;
+    }
+  }
+
+  return typeof value === "string" ? value : value.format(DEFAULT_DATE_FORMAT);
+}
+
+// 以變數值與運算式結果取代佔位符；escape 用於 Flex JSON 等需要跳脫的內容
+// 缺少變數值時拋出 TemplateRenderError，運算式錯誤時拋出 TemplateExpressionError
+export function renderTemplate(
+  content: string,
+  values: Record<string, string>,
+  escape: (value: string) => string = v => v,
+  context: RenderContext = {}
+): string {
+  const missing = extractPlaceholders(content)
+    .filter(name => name !== "now" && name !== "occurrence_number" && values[name] === undefined);
+  if (missing.length > 0) {
+    throw new TemplateRenderError(missing);
+  }
+  return content.replace(PLACEHOLDER, (_, source: string) => escape(evaluate(parseExpression(source), values, context)));
+}
+
+// 將字串放進 JSON 字串值中時的跳脫
+export const escapeJsonString = (value: string) => JSON.stringify(value).slice(1, -1);
+
+// 填寫表單與儲存值之間的轉換：儲存的是發送時直接帶入的文字
+export function toInputValue(type: TemplateVariableType, value: string): string {
+  switch (type) {
+    case "amount":
+      return value.replace(/,/g, "");
+    case "date":
+      return value.replace(/\//g, "-");
+    case "month":
+      return value.replace(/月$/, "");
+    default:
+      return value;
+  }
+}
+
+export function fromInputValue(type: TemplateVariableType, input: string): string {
+  if (input === "") return "";
+  switch (type) {
+    case "amount": {
+      const amount = Number(input.replace(/,/g, ""));
+      return Number.isFinite(amount) ? amount.toLocaleString("en-US") : input;
+    }
+    case "date":
+      return input.replace(/-/g, "/");
+    case "month":
+      return `${parseInt(input)}月`;
+    default:
+      return input;
+  }
+}
+
+// 檢查填寫的值是否符合型別，通過時回傳 null
+export function validateVariableValue(type: TemplateVariableType, value: string): string | null {
+  switch (type) {
+    case "number":
+      return /^-?\d+(\.\d+)?$/.test(value) ? null : "必須是數字";
+    case "amount":
+      return /^-?\d{1,3}(,\d{3})*(\.\d+)?$|^-?\d+(\.\d+)?$/.test(value) ? null : "必須是金額";
+    case "date":
+      return /^\d{4}\/\d{2}\/\d{2}$/.test(value) ? null : "日期格式為 YYYY/MM/DD";
+    case "month":
+      return /^(1[0-2]|[1-9])月$/.test(value) ? null : "月份必須是 1～12 月";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,71 @@
+// 長文字內容分段：LINE 的文字訊息最多 5000 字，超過時依段落、句子的邊界拆成多則訊息
+// 前端的字數/則數提示與伺服器發送使用同一套規則
+
+// LINE 文字訊息的字數上限（以 UTF-16 計算）
+export const MAX_TEXT_LENGTH = 5000;
+
+// 在句號後斷行，讓長段落在 LINE 上比較好閱讀
+export function breakSentences(content: string): string {
+  return content.replace(/。(?!\n)/g, "。\n");
+}
+
+// 由大到小的分段邊界：空行（段落）→ 換行 → 句尾標點 → 逗號 → 空白
+const boundaries: RegExp[] = [
+  /(?<=\n\n)/,
+  /(?<=\n)/,
+  /(?<=[。！？!?；])|(?<=[.;]\s)/,
+  /(?<=[，、,])/,
+  /(?<=\s)/,
+];
+
+// 依字素（emoji、組合字元視為一個單位）切開，不會把代理對或 ZWJ 表情拆成兩半
+function graphemes(text: string): string[] {
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+  return Array.from(text);
+}
+
+// 沒有任何邊界可用時，逐字素切成不超過 max 的片段
+function hardSplit(text: string, max: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const grapheme of graphemes(text)) {
+    if (current.length + grapheme.length > max && current) {
+      pieces.push(current);
+      current = "";
+    }
+    current += grapheme;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// 超過 max 的片段依下一層邊界再拆，直到每一片都不超過 max
+function splitPiece(text: string, max: number, level: number): string[] {
+  if (text.length <= max) return [text];
+  if (level >= boundaries.length) return hardSplit(text, max);
+
+  const parts = text.split(boundaries[level]).filter(Boolean);
+  if (parts.length <= 1) return splitPiece(text, max, level + 1);
+  return parts.flatMap(part => splitPiece(part, max, level + 1));
+}
+
+// 將內容拆成每則不超過 max 字的訊息；片段依序盡量合併，只在段落或句子的邊界斷開
+export function splitText(content: string, max: number = MAX_TEXT_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of splitPiece(content, max, 0)) {
+    if (current.length + piece.length > max) {
+      chunks.push(current);
+      current = "";
+    }
+    current += piece;
+  }
+  chunks.push(current);
+
+  // 斷點處的換行不需要保留在訊息開頭或結尾
+  return chunks.map(chunk => chunk.replace(/^\n+|\n+$/g, "")).filter(chunk => chunk.trim() !== "");
+}
@@ -0,0 +1,35 @@
+import moment from "moment-timezone";
+
+// 系統預設時區；舊資料與未指定時區的群組/訊息都以台灣時間計算
+export const DEFAULT_TIMEZONE = "Asia/Taipei";
+
+// 表單中可選擇的時區（IANA 名稱），涵蓋台幣、澳幣、美金客戶所在地區
+export const commonTimeZones: { value: string; label: string }[] = [
+  { value: "Asia/Taipei", label: "台北" },
+  { value: "Australia/Sydney", label: "雪梨" },
+  { value: "Australia/Melbourne", label: "墨爾本" },
+  { value: "Australia/Brisbane", label: "布里斯本" },
+  { value: "Australia/Adelaide", label: "阿德雷德" },
+  { value: "Australia/Perth", label: "伯斯" },
+  { value: "America/New_York", label: "紐約" },
+  { value: "America/Chicago", label: "芝加哥" },
+  { value: "America/Denver", label: "丹佛" },
+  { value: "America/Los_Angeles", label: "洛杉磯" },
+  { value: "Pacific/Honolulu", label: "檀香山" },
+  { value: "UTC", label: "UTC" },
+];
+
+export function isValidTimeZone(timezone: string): boolean {
+  return !!moment.tz.zone(timezone);
+}
+
+export function timeZoneLabel(timezone: string | null | undefined): string {
+  const zone = timezone || DEFAULT_TIMEZONE;
+  return commonTimeZones.find(z => z.value === zone)?.label || zone;
+}
+
+// 以指定時區解讀「日期 + 時:分」，例如雪梨時間 09:00；夏令時間切換造成不存在的時間會往後順延
+export function zonedDateTime(date: Date, time: string, timezone: string): moment.Moment {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  return moment.tz(`${day} ${time}`, "YYYY-MM-DD HH:mm", timezone || DEFAULT_TIMEZONE);
+}
@@ -1,9 +1,21 @@
 // 前端可安全使用的純資料型別
+import type { MessageAttachment } from "./attachments";
+import type { TemplateVariable } from "./templateRender";
 
 export type Group = {
   id: number;
   name: string;
   lineId: string;
+  deliveryPolicy: "strict" | "best_effort" | "disabled";
+  timezone: string;
+  variables: Record<string, string>;
+  status: "active" | "pending" | "inactive";
+  memberCount?: number | null;
+  joinedAt?: string | null;
+  leftAt?: string | null;
+  unreachable: boolean;
+  notMemberFailures: number;
+  unreachableAt?: string | null;
 };
 
 export type Template = {
@@ -11,6 +23,25 @@ export type Template = {
   name: string;
   content: string;
   type: string;
+  format: string;
+  flexContent?: string | null;
+  variables: TemplateVariable[];
+  version: number;
+};
+
+export type TemplateVersion = {
+  id: number;
+  templateId: number;
+  version: number;
+  name: string;
+  content: string;
+  type: string;
+  format: string;
+  flexContent?: string | null;
+  variables: TemplateVariable[];
+  restoredFrom?: number | null;
+  createdAt: string;
+  templateDeletedAt?: string | null;
 };
 
 export type Message = {
@@ -26,8 +57,34 @@ export type Message = {
   currency?: string | null;
   amount?: string | null;
   recurringType?: string | null;
+  rrule?: string | null;
   lastSent?: string | null;
   recurringActive?: boolean;
+  missedRunPolicy: string;
+  maxLatenessMinutes?: number | null;
+  until?: string | null;
+  maxOccurrences?: number | null;
+  occurrenceCount: number;
+  holidayRule: string;
+  monthEndOverflow: string;
+  timezone: string;
+  windowJitter: boolean;
+  format: string;
+  flexContent?: string | null;
+  attachments: MessageAttachment[];
+  variables: Record<string, string>;
+  templateId?: number | null;
+  templateVersion?: number | null;
+  templateLinked: boolean;
+  sentAt?: string | null;
+  archived: boolean;
+};
+
+export type Holiday = {
+  id: number;
+  date: string;
+  name: string;
+  isWorkday: boolean;
 };
 
 export type Settings = {
@@ -36,4 +93,45 @@ export type Settings = {
   lineChannelSecret?: string | null;
   lastSynced?: string | null;
   isConnected: boolean;
+  amountTemplate?: string | null;
+  adminUserIds: string[];
+};
+
+export type Delivery = {
+  id: number;
+  messageId?: number | null;
+  groupId: number;
+  lineRequestId?: string | null;
+  httpStatus?: number | null;
+  errorBody?: string | null;
+  attempt: number;
+  success: boolean;
+  attemptedAt: string;
+  respondedAt?: string | null;
+};
+
+export type InboundMessage = {
+  id: number;
+  groupId: number;
+  lineMessageId: string;
+  lineUserId?: string | null;
+  type: 'text' | 'image';
+  text?: string | null;
+  mediaFile?: string | null;
+  quotedMessageId?: string | null;
+  receivedAt: string;
+};
+
+export type SendJob = {
+  id: number;
+  messageId: number;
+  occurrenceAt: string;
+  status: 'pending' | 'running' | 'done' | 'failed' | 'expired';
+  runAt: string;
+  lockedBy?: string | null;
+  lockedUntil?: string | null;
+  attempts: number;
+  lastError?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
 };